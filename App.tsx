@@ -1,138 +1,126 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { identifyObjectsInVideo } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { defaultProviderId, detectionProviders, getDetectionProvider } from './services/detectionProviders';
+import { createFixture } from './services/replayProvider';
+import { analyzeVideo } from './services/analysisPipeline';
 import VideoUpload from './components/VideoUpload';
-import Loader from './components/Loader';
+import AnalysisStatus from './components/AnalysisStatus';
 import ObjectTag from './components/ObjectTag';
-import { EyeIcon, GithubIcon, SparklesIcon } from './components/Icons';
-
-interface IdentifiedObject {
-  name: string;
-  imageUrl: string | null;
-  price: string;
-  timestamp: number;
-}
-
-interface BoundingBox {
-  x_min: number;
-  y_min: number;
-  x_max: number;
-  y_max: number;
-}
-
-/**
- * Extracts a frame from a video file at a specific time with high reliability.
- * @param videoFile The video file to process.
- * @param timeInSeconds The timestamp in seconds for the frame to capture.
- * @returns A Promise that resolves with a base64 data URL of the captured frame.
- */
-const extractFrameFromVideo = (videoFile: File, timeInSeconds: number): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-
-    if (!context) {
-      return reject(new Error('Could not get canvas context.'));
-    }
-
-    const videoUrl = URL.createObjectURL(videoFile);
-
-    const cleanup = () => {
-      video.removeEventListener('loadedmetadata', onLoadedMetadata);
-      video.removeEventListener('seeked', onSeeked);
-      video.removeEventListener('error', onError);
-      URL.revokeObjectURL(videoUrl);
-    };
-
-    const onSeeked = () => {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      cleanup();
-      resolve(canvas.toDataURL('image/jpeg', 0.9));
-    };
-
-    const onLoadedMetadata = () => {
-      // Ensure the seek time is within the video's duration
-      video.currentTime = Math.min(Math.max(0, timeInSeconds), video.duration);
-    };
-
-    const onError = (e: Event | string) => {
-      cleanup();
-      const errorMessage = e instanceof Event ? (e.target as HTMLVideoElement)?.error?.message : e;
-      reject(new Error(`Video error during frame extraction: ${errorMessage}`));
-    };
-
-    video.addEventListener('loadedmetadata', onLoadedMetadata);
-    video.addEventListener('seeked', onSeeked);
-    video.addEventListener('error', onError);
-
-    video.preload = 'metadata';
-    video.muted = true;
-    video.playsInline = true;
-    video.src = videoUrl;
-  });
-};
-
-
-/**
- * Draws a bounding box on an image with improved precision.
- * @param imageUrl The base64 data URL of the image.
- * @param box The normalized bounding box coordinates.
- * @returns A Promise that resolves with a new base64 data URL of the image with the box drawn on it.
- */
-const drawBoundingBoxOnImage = (imageUrl: string, box: BoundingBox): Promise<string> => {
-  return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) return reject('Could not get canvas context');
-
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-
-          // Make line width proportional for better visual consistency.
-          const lineWidth = Math.max(2, Math.round(Math.min(img.width, img.height) / 250));
-
-          // Sanitize and clamp coordinates to be within the image bounds.
-          const x1 = Math.max(0, box.x_min * img.width);
-          const y1 = Math.max(0, box.y_min * img.height);
-          const x2 = Math.min(img.width, box.x_max * img.width);
-          const y2 = Math.min(img.height, box.y_max * img.height);
-          
-          const width = x2 - x1;
-          const height = y2 - y1;
-          
-          // Only draw the box if it has a valid, positive size.
-          if (width > 0 && height > 0) {
-              ctx.strokeStyle = 'yellow';
-              ctx.lineWidth = lineWidth;
-              ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
-              ctx.shadowBlur = lineWidth * 2;
-              
-              ctx.strokeRect(x1, y1, width, height);
-          }
-
-          resolve(canvas.toDataURL('image/jpeg'));
-      };
-      img.onerror = () => reject(new Error('Failed to load image for drawing bounding box.'));
-      img.src = imageUrl;
-  });
-};
-
+import { EyeIcon, GithubIcon, HistoryIcon, SettingsIcon, SparklesIcon } from './components/Icons';
+import VideoOverlay from './components/VideoOverlay';
+import DetectionTimeline from './components/DetectionTimeline';
+import ExportPanel from './components/ExportPanel';
+import VideoRenderPanel from './components/VideoRenderPanel';
+import HistorySidebar from './components/HistorySidebar';
+import BatchQueue from './components/BatchQueue';
+import DetectionEditor, { DetectionDraft } from './components/DetectionEditor';
+import ValidationReport from './components/ValidationReport';
+import UsageSummary from './components/UsageSummary';
+import QueryBuilder from './components/QueryBuilder';
+import ResultsToolbar from './components/ResultsToolbar';
+import ValueSummary from './components/ValueSummary';
+import SettingsPanel from './components/SettingsPanel';
+import AnalysisRangeBar from './components/AnalysisRangeBar';
+import AnalysisModePicker from './components/AnalysisModePicker';
+import { formatRawJson } from './services/responseValidation';
+import { BatchItem, BatchRun, useBatchQueue } from './hooks/useBatchQueue';
+import { LiveDetection, useLiveSampling } from './hooks/useLiveSampling';
+import CapturePanel from './components/CapturePanel';
+import LiveResults from './components/LiveResults';
+import {
+  AnalysisSummary,
+  deleteAnalysis,
+  describeVideoFile,
+  getAnalysis,
+  listAnalyses,
+  matchesVideoFile,
+  renameAnalysis,
+  saveAnalysis,
+  updateAnalysisObjects,
+  VideoFileInfo,
+} from './services/historyStore';
+import { AnalysisMode, AnalysisProgress, FrameSamplingSettings, IdentifiedObject, ModelSettings, PromptTemplate, RunInfo, StructuredQuery, TimeWindow, TokenUsage, ValidationIssue } from './types';
+import { EMPTY_QUERY, includedTerms, queryFromTerms } from './utils/queryTerms';
+import { groupByTerm, meetsThreshold, ResultSort, ResultView, sortDetections } from './utils/resultView';
+import { clusterDetections, mergeCluster } from './services/instanceClustering';
+import { termColor } from './utils/colors';
+import { baseName, downloadBlob } from './utils/download';
+import { attachFrames, renderDetectionFrames } from './services/frameService';
+import { toTrackedObject, withCorrectedBox } from './services/tracks';
+import { isAbortError } from './utils/abort';
+import { describeError, ErrorNotice } from './services/analysisErrors';
+import { addUsage, EMPTY_USAGE } from './services/usage';
+import { CurrencySettings, formatDetectionPrice, loadCurrencySettings, parsePrice, saveCurrencySettings } from './services/pricing';
+import { estimateChunkedUsage } from './services/chunkedAnalysis';
+import { getVideoMetadata } from './services/videoMetadata';
+import { loadModelSettings, saveModelSettings, toIdentifyOptions } from './services/modelSettings';
+import { loadCustomTemplates } from './services/promptTemplates';
+import { loadFrameSampling, saveFrameSampling } from './services/frameSampling';
 
 const App: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [query, setQuery] = useState<string>('');
+  const [query, setQuery] = useState<StructuredQuery>(EMPTY_QUERY);
+  const [providerId, setProviderId] = useState<string>(defaultProviderId);
   const [identifiedObjects, setIdentifiedObjects] = useState<IdentifiedObject[]>([]);
+  const [analyzedTerms, setAnalyzedTerms] = useState<string[]>([]);
+  const [hiddenTerms, setHiddenTerms] = useState<Set<string>>(new Set());
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(0);
+  const [resultSort, setResultSort] = useState<ResultSort>('time');
+  const [groupResults, setGroupResults] = useState<boolean>(false);
+  const [resultView, setResultView] = useState<ResultView>('sightings');
+  const [includePrices, setIncludePrices] = useState<boolean>(false);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
   const [rawJsonOutput, setRawJsonOutput] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [runUsage, setRunUsage] = useState<TokenUsage | null>(null);
+  const [runInfo, setRunInfo] = useState<RunInfo | null>(null);
+  // When the shown result came from the result cache, when it was originally produced.
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage>(EMPTY_USAGE);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  // The part of the video to analyze; null for all of it.
+  const [analysisRange, setAnalysisRange] = useState<TimeWindow | null>(null);
+  // Whether the next run sends the video or sampled frames; switch between runs to compare the two.
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('video');
+  const [frameSampling, setFrameSampling] = useState<FrameSamplingSettings>(loadFrameSampling);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const [history, setHistory] = useState<AnalysisSummary[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [activeAnalysisId, setActiveAnalysisId] = useState<string | null>(null);
+  const [missingVideo, setMissingVideo] = useState<VideoFileInfo | null>(null);
+  // `detection` is null when adding a detection the model missed.
+  const [editorTarget, setEditorTarget] = useState<{ detection: IdentifiedObject | null; timestamp: number } | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const segmentEndRef = useRef<number | null>(null);
+  // Incremented on every new run or file change so late frame work from an older run doesn't get saved as current.
+  const runIdRef = useRef<number>(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistory(await listAnalyses());
+    } catch (e) {
+      console.error('Failed to load analysis history', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const addSessionUsage = useCallback((usage: TokenUsage) => {
+    setSessionUsage(prev => addUsage(prev, usage));
+  }, []);
+
+  const batch = useBatchQueue(refreshHistory, addSessionUsage);
+  const live = useLiveSampling(addSessionUsage);
+  // Seek target for a video that is still loading, applied once its metadata is available.
+  const pendingSeekRef = useRef<number | null>(null);
 
   useEffect(() => {
     return () => {
@@ -142,30 +130,272 @@ const App: React.FC = () => {
     };
   }, [videoUrl]);
 
-  const handleFileChange = (file: File | null) => {
+  useEffect(() => {
+    setVideoDuration(null);
+    setAnalysisRange(null);
+    if (!videoFile) return;
+    let cancelled = false;
+    getVideoMetadata(videoFile)
+      .then(metadata => {
+        if (!cancelled) setVideoDuration(metadata.duration);
+      })
+      .catch(() => setVideoDuration(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoFile]);
+
+  const showVideo = (file: File | null) => {
     if (videoUrl) {
       URL.revokeObjectURL(videoUrl);
     }
     setVideoFile(file);
+    setVideoUrl(file ? URL.createObjectURL(file) : null);
+  };
+
+  const handleFileChange = (file: File | null) => {
+    abortRef.current?.abort();
+    runIdRef.current++;
+    showVideo(file);
     setIdentifiedObjects([]);
+    setAnalyzedTerms([]);
+    setHiddenTerms(new Set());
     setRawJsonOutput(null);
+    setValidationIssues([]);
+    setRunUsage(null);
+    setRunInfo(null);
+    setCachedAt(null);
     setError(null);
+    setActiveAnalysisId(null);
+    setMissingVideo(null);
+  };
 
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoUrl(url);
-    } else {
-      setVideoUrl(null);
+  /**
+   * Attaches a video to a reopened analysis without clearing its results.
+   */
+  const handleReattachVideo = (file: File | null) => {
+    if (!file || !missingVideo) return;
+    setError(matchesVideoFile(missingVideo, file)
+      ? null
+      : { message: `"${file.name}" doesn't look like the original video (${missingVideo.name}). Detections may not line up.` });
+    showVideo(file);
+    setMissingVideo(null);
+  };
+
+  const handleOpenAnalysis = async (id: string) => {
+    try {
+      const analysis = await getAnalysis(id);
+      if (!analysis) {
+        setError({ message: 'That analysis no longer exists.' });
+        refreshHistory();
+        return;
+      }
+      abortRef.current?.abort();
+      runIdRef.current++;
+      setIdentifiedObjects(analysis.objects);
+      setAnalyzedTerms(analysis.targetObjects);
+      setHiddenTerms(new Set());
+      setQuery(analysis.query ?? queryFromTerms(analysis.targetObjects));
+      if (detectionProviders.some(p => p.id === analysis.providerId)) {
+        setProviderId(analysis.providerId);
+      }
+      setRawJsonOutput(analysis.rawJson);
+      setValidationIssues([]);
+      setRunUsage(analysis.usage ?? null);
+      setRunInfo(analysis.run ?? null);
+      setCachedAt(null);
+      setActiveAnalysisId(analysis.id);
+      setError(null);
+
+      if (videoFile && matchesVideoFile(analysis.video, videoFile)) {
+        setMissingVideo(null);
+      } else {
+        showVideo(null);
+        setMissingVideo(analysis.video);
+      }
+      setIsHistoryOpen(false);
+    } catch (e) {
+      console.error(e);
+      setError({ message: 'Failed to open the saved analysis.' });
     }
   };
 
-  const handleIdentifyClick = useCallback(async () => {
+  const handleStartSampling = (stream: MediaStream, intervalSeconds: number) => {
+    if (query.include.length === 0) {
+      setError({ message: "Please specify what objects to identify." });
+      return;
+    }
+    setError(null);
+    const provider = getDetectionProvider(providerId);
+    live.start(stream, intervalSeconds, {
+      provider,
+      query,
+      includePrices,
+      requestOptions: {
+        ...toIdentifyOptions(modelSettings, customTemplates),
+        mode: provider.supportsFrameSampling ? analysisMode : 'video',
+        sampling: frameSampling,
+        rates: currencySettings.rates,
+      },
+    });
+  };
+
+  const handleOpenLiveDetection = (detection: LiveDetection) => {
+    handleOpenResult(detection.clip, detection.timestamp - detection.clip.start);
+  };
+
+  /**
+   * The query and settings a batch runs with, the same as a single-file run's but for the range;
+   * null, with an error shown, when there is nothing to look for.
+   */
+  const currentBatchRun = (): BatchRun | null => {
+    if (query.include.length === 0) {
+      setError({ message: "Please specify what objects to identify." });
+      return null;
+    }
+    setError(null);
+    const provider = getDetectionProvider(providerId);
+    return {
+      provider,
+      query,
+      includePrices,
+      requestOptions: {
+        ...toIdentifyOptions(modelSettings, customTemplates),
+        mode: provider.supportsFrameSampling ? analysisMode : 'video',
+        sampling: frameSampling,
+        rates: currencySettings.rates,
+      },
+    };
+  };
+
+  const handleStartBatch = () => {
+    const run = currentBatchRun();
+    if (run) batch.start(run);
+  };
+
+  const handleRetryBatchItem = (id: string) => {
+    const run = currentBatchRun();
+    if (run) batch.retry(id, run);
+  };
+
+  /**
+   * Shows one finished batch video or live clip in the main player with its results, optionally seeking to a detection.
+   */
+  const handleOpenResult = (
+    item: Pick<BatchItem, 'file' | 'objects' | 'targetObjects' | 'rawJson' | 'usage' | 'savedAnalysisId'>,
+    timestamp?: number,
+  ) => {
+    abortRef.current?.abort();
+    runIdRef.current++;
+    if (item.file !== videoFile) {
+      showVideo(item.file);
+      pendingSeekRef.current = timestamp ?? null;
+    } else if (timestamp !== undefined) {
+      handleCardClick(timestamp);
+    }
+    setIdentifiedObjects(item.objects);
+    setAnalyzedTerms(item.targetObjects);
+    setHiddenTerms(new Set());
+    setRawJsonOutput(item.rawJson);
+    setValidationIssues([]);
+    setRunUsage(item.usage);
+    setRunInfo(null);
+    setCachedAt(null);
+    setActiveAnalysisId(item.savedAnalysisId);
+    setMissingVideo(null);
+    setError(null);
+  };
+
+  const handleLoadedMetadata = () => {
+    if (pendingSeekRef.current !== null) {
+      handleCardClick(pendingSeekRef.current);
+      pendingSeekRef.current = null;
+    }
+  };
+
+  /**
+   * Writes corrected detections back to the saved analysis, if the current results came from one.
+   */
+  const persistCorrections = (objects: IdentifiedObject[]) => {
+    if (!activeAnalysisId) return;
+    updateAnalysisObjects(activeAnalysisId, objects)
+      .then(refreshHistory)
+      .catch(e => console.error('Failed to save corrections', e));
+  };
+
+  const handleSaveDetection = async ({ timestamp, boundingBox, ...fields }: DetectionDraft) => {
+    const existing = editorTarget?.detection ?? null;
+    setEditorTarget(null);
+
+    const priceRange = parsePrice(fields.price, currencySettings.rates) ?? undefined;
+    const corrected: IdentifiedObject = existing
+      ? { ...existing, ...withCorrectedBox(existing, timestamp, boundingBox), ...fields, priceRange, edited: true }
+      : {
+          ...toTrackedObject({ ...fields, timestamp, boundingBox }),
+          ...fields,
+          priceRange,
+          id: crypto.randomUUID(),
+          origin: 'manual',
+          edited: false,
+          frameUrl: null,
+          imageUrl: null,
+          thumbnailUrl: null,
+        };
+
+    const withCorrection = (objects: IdentifiedObject[], obj: IdentifiedObject) =>
+      existing ? objects.map(o => (o.id === obj.id ? obj : o)) : [...objects, obj];
+
+    setIdentifiedObjects(prev => withCorrection(prev, corrected));
+
+    let rendered = corrected;
+    try {
+      rendered = await renderDetectionFrames(videoFile, corrected);
+      setIdentifiedObjects(prev => prev.map(o => (o.id === rendered.id ? rendered : o)));
+    } catch (e) {
+      console.error(`Failed to regenerate frame for ${corrected.name}`, e);
+    }
+    persistCorrections(withCorrection(identifiedObjects, rendered));
+  };
+
+  const handleDeleteDetection = () => {
+    const target = editorTarget?.detection;
+    setEditorTarget(null);
+    if (!target) return;
+    const remaining = identifiedObjects.filter(o => o.id !== target.id);
+    setIdentifiedObjects(remaining);
+    persistCorrections(remaining);
+  };
+
+  const handleRenameAnalysis = async (id: string, title: string) => {
+    try {
+      await renameAnalysis(id, title);
+    } catch (e) {
+      console.error(e);
+      setError(describeError(e, 'Failed to rename the analysis.'));
+    }
+    refreshHistory();
+  };
+
+  const handleDeleteAnalysis = async (id: string) => {
+    try {
+      await deleteAnalysis(id);
+      if (id === activeAnalysisId) {
+        setActiveAnalysisId(null);
+      }
+    } catch (e) {
+      console.error(e);
+      setError({ message: 'Failed to delete the analysis.' });
+    }
+    refreshHistory();
+  };
+
+  const handleIdentifyClick = useCallback(async ({ refreshCache = false }: { refreshCache?: boolean } = {}) => {
     if (!videoFile) {
-      setError("Please upload a video file first.");
+      setError({ message: "Please upload a video file first." });
       return;
     }
-    if (!query.trim()) {
-        setError("Please specify what objects to identify.");
+    if (query.include.length === 0) {
+        setError({ message: "Please specify what objects to identify." });
         return;
     }
 
@@ -173,53 +403,185 @@ const App: React.FC = () => {
     setError(null);
     setIdentifiedObjects([]);
     setRawJsonOutput(null);
+    setValidationIssues([]);
+    setRunUsage(null);
+    setRunInfo(null);
+    setCachedAt(null);
+    setProgress(null);
+    setHiddenTerms(new Set());
+    setActiveAnalysisId(null);
+    const runId = ++runIdRef.current;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
     try {
-      const targetObjects = query.split(',').map(s => s.trim()).filter(Boolean);
-      const { objects: objectsWithData, rawJson } = await identifyObjectsInVideo(videoFile, targetObjects);
-      
+      const targetObjects = includedTerms(query);
+      setAnalyzedTerms(targetObjects);
+      const provider = getDetectionProvider(providerId);
+      const { objects: initialObjects, rawJson, issues, usage, run, cachedAt: resultCachedAt } = await analyzeVideo(provider, videoFile, targetObjects, {
+        ...toIdentifyOptions(modelSettings, customTemplates),
+        onStage: stage => setProgress(prev => ({ ...prev, stage, retry: undefined })),
+        onProgress: chunks => setProgress(prev => ({ stage: 'reading', ...prev, chunks })),
+        onRetry: retry => setProgress(prev => ({ ...prev, stage: 'waiting', retry })),
+        query,
+        includePrices,
+        rates: currencySettings.rates,
+        refreshCache,
+        range: analysisRange ?? undefined,
+        mode: provider.supportsFrameSampling ? analysisMode : 'video',
+        sampling: frameSampling,
+        signal,
+      });
+
       setRawJsonOutput(rawJson);
+      setValidationIssues(issues);
+      setRunInfo(run ?? null);
+      setCachedAt(resultCachedAt ?? null);
+      if (usage) {
+        setRunUsage(usage);
+        addSessionUsage(usage);
+      }
 
-      if (objectsWithData.length === 0) {
+      if (initialObjects.length === 0) {
         setIdentifiedObjects([]);
-        setError("No matching objects were found in the video.");
+        setError({
+          message: issues.some(issue => issue.action === 'rejected')
+            ? "The model returned detections, but none passed validation."
+            : "No matching objects were found in the video.",
+        });
       } else {
-        const initialObjects: IdentifiedObject[] = objectsWithData.map(obj => ({
-          name: obj.name,
-          imageUrl: null,
-          price: obj.price,
-          timestamp: obj.timestamp
-        }));
         setIdentifiedObjects(initialObjects);
 
-        objectsWithData.forEach(async (obj, index) => {
-          try {
-            const rawFrame = await extractFrameFromVideo(videoFile, obj.timestamp);
-            const frameWithBox = await drawBoundingBoxOnImage(rawFrame, obj.boundingBox);
-            
+        const objects = await attachFrames(videoFile, initialObjects, {
+          onFrame: (index, withFrames) => {
             setIdentifiedObjects(prev => {
               const newObjects = [...prev];
-              if (newObjects[index] && newObjects[index].name === obj.name) {
-                newObjects[index] = { ...newObjects[index], imageUrl: frameWithBox };
+              if (newObjects[index] && newObjects[index].id === withFrames.id) {
+                newObjects[index] = withFrames;
               }
               return newObjects;
             });
-          } catch (e) {
-            console.error(`Failed to process frame for ${obj.name}`, e);
-          }
+          },
+          onProgress: (completed, total) => setProgress({ stage: 'extracting', frames: { completed, total } }),
+          signal,
         });
+
+        // Save once every card has its frame so reopened analyses don't need the video to show snapshots.
+        saveAnalysis({
+          video: describeVideoFile(videoFile),
+          targetObjects,
+          query,
+          providerId,
+          rawJson,
+          objects,
+          usage,
+          run,
+        })
+          .then(saved => {
+            if (runIdRef.current === runId) {
+              setActiveAnalysisId(saved.id);
+            }
+            refreshHistory();
+          })
+          .catch(e => console.error('Failed to save analysis to history', e));
       }
     } catch (err) {
+      // A run superseded by another video or analysis stays silent.
+      if (runIdRef.current !== runId) return;
+      if (isAbortError(err)) {
+        setError({ message: "Analysis cancelled." });
+        return;
+      }
       console.error(err);
-      setError(err instanceof Error ? err.message : "An unknown error occurred during object identification.");
+      setError(describeError(err));
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
+    }
+  }, [videoFile, query, providerId, includePrices, currencySettings, analysisRange, analysisMode, frameSampling, modelSettings, customTemplates, refreshHistory, addSessionUsage]);
+
+  // Detections above the confidence threshold, shown in the grid, overlay and timeline. Exports keep everything.
+  const shownObjects = useMemo(
+    () => identifiedObjects.filter(obj => meetsThreshold(obj, confidenceThreshold)),
+    [identifiedObjects, confidenceThreshold],
+  );
+
+  // In the unique-instances view each cluster of repeated sightings is shown as one merged detection,
+  // keyed by its representative's id, with the times of all its sightings.
+  const { visibleObjects, sightingsById } = useMemo(() => {
+    if (resultView === 'sightings') {
+      return { visibleObjects: sortDetections(shownObjects, resultSort, currencySettings.rates), sightingsById: new Map<string, number[]>() };
     }
-  }, [videoFile, query]);
-  
-  const handleCardClick = (timestamp: number) => {
+    const clusters = clusterDetections(shownObjects);
+    return {
+      visibleObjects: sortDetections(clusters.map(mergeCluster), resultSort, currencySettings.rates),
+      sightingsById: new Map(clusters.map(c => [c.representative.id, c.occurrences.map(obj => obj.timestamp)])),
+    };
+  }, [shownObjects, resultView, resultSort, currencySettings.rates]);
+
+  const termCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    visibleObjects.forEach(obj => counts.set(obj.queryTerm, (counts.get(obj.queryTerm) ?? 0) + 1));
+    return counts;
+  }, [visibleObjects]);
+
+  const handleModelSettingsChange = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    saveModelSettings(settings);
+  };
+
+  const handleFrameSamplingChange = (settings: FrameSamplingSettings) => {
+    setFrameSampling(settings);
+    saveFrameSampling(settings);
+  };
+
+  const handleCurrencySettingsChange = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  const colorForTerm = useCallback((term: string) => {
+    const index = analyzedTerms.indexOf(term);
+    return termColor(index === -1 ? analyzedTerms.length : index);
+  }, [analyzedTerms]);
+
+  const toggleTerm = (term: string) => {
+    setHiddenTerms(prev => {
+      const next = new Set(prev);
+      if (next.has(term)) {
+        next.delete(term);
+      } else {
+        next.add(term);
+      }
+      return next;
+    });
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (video && segmentEndRef.current !== null && video.currentTime >= segmentEndRef.current) {
+      segmentEndRef.current = null;
+      video.pause();
+    }
+  };
+
+  const handleDownloadFixture = () => {
+    if (!videoFile || !rawJsonOutput) return;
+    const fixtureJson = createFixture(videoFile, analyzedTerms, providerId, rawJsonOutput);
+    downloadBlob(new Blob([fixtureJson], { type: 'application/json' }), `${baseName(videoFile.name)}.fixture.json`);
+  };
+
+  /**
+   * Seeks to `start` and plays. When `end` is later than `start`, playback pauses at `end`.
+   */
+  const handleCardClick = (start: number, end: number = start) => {
     if (videoRef.current) {
-      videoRef.current.currentTime = timestamp;
+      segmentEndRef.current = end > start ? end : null;
+      videoRef.current.currentTime = start;
       videoRef.current.play();
       videoRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }
@@ -229,6 +591,25 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center justify-center p-4 selection:bg-indigo-500/30">
       <main className="w-full max-w-4xl mx-auto space-y-8 p-4 md:p-8">
         <header className="text-center">
+          <div className="flex justify-between mb-4">
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 border border-gray-700 rounded-full hover:border-indigo-500 hover:text-indigo-300 transition-colors"
+              aria-label="Open analysis history"
+            >
+              <HistoryIcon className="w-4 h-4" />
+              History
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 border border-gray-700 rounded-full hover:border-indigo-500 hover:text-indigo-300 disabled:opacity-50 transition-colors"
+              aria-label="Open model settings"
+            >
+              <SettingsIcon className="w-4 h-4" />
+              Settings
+            </button>
+          </div>
           <h1 className="text-4xl md:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-purple-500 flex items-center justify-center gap-3">
             <EyeIcon className="w-10 h-10" />
             Dynamic Video Object Identifier
@@ -239,81 +620,318 @@ const App: React.FC = () => {
         </header>
 
         <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl shadow-2xl shadow-black/20 p-6 md:p-8 space-y-6">
-          <VideoUpload onFileChange={handleFileChange} disabled={isLoading} />
+          {missingVideo && (
+            <div className="p-4 bg-indigo-900/30 border border-indigo-700 text-indigo-200 rounded-lg text-sm text-center">
+              This saved analysis was run on <span className="font-semibold">{missingVideo.name}</span>. Drop that file below to play it alongside the results.
+            </div>
+          )}
+
+          <VideoUpload
+            onFileChange={missingVideo ? handleReattachVideo : handleFileChange}
+            onMultipleFiles={missingVideo ? undefined : batch.addFiles}
+            disabled={isLoading}
+          />
+
+          {!missingVideo && (
+            <CapturePanel
+              disabled={isLoading}
+              onUseClip={handleFileChange}
+              isSampling={live.isSampling}
+              canSample={query.include.length > 0}
+              onStartSampling={handleStartSampling}
+              onStopSampling={live.stop}
+            />
+          )}
+
+          {(live.isSampling || live.detections.length > 0) && (
+            <LiveResults
+              detections={live.detections}
+              isSampling={live.isSampling}
+              clipCount={live.clips.length + live.expiredCount}
+              pendingCount={live.pendingCount}
+              droppedCount={live.droppedCount}
+              expiredCount={live.expiredCount}
+              error={live.error}
+              onOpen={handleOpenLiveDetection}
+              onClear={live.clear}
+            />
+          )}
           
           {videoUrl && (
             <div className="bg-black rounded-lg overflow-hidden border border-gray-700">
-              <video
-                ref={videoRef}
-                controls
-                src={videoUrl}
-                className="w-full h-auto max-h-[400px]"
-                aria-label="Uploaded video preview"
-              />
+              <div className="relative">
+                <video
+                  ref={videoRef}
+                  controls
+                  src={videoUrl}
+                  onTimeUpdate={handleTimeUpdate}
+                  onLoadedMetadata={handleLoadedMetadata}
+                  onPause={() => { segmentEndRef.current = null; }}
+                  className="block w-full h-auto max-h-[400px]"
+                  aria-label="Uploaded video preview"
+                />
+                <VideoOverlay
+                  videoRef={videoRef}
+                  detections={visibleObjects}
+                  hiddenTerms={hiddenTerms}
+                  colorForTerm={colorForTerm}
+                />
+              </div>
+            </div>
+          )}
+
+          {videoUrl && (
+            <AnalysisRangeBar videoRef={videoRef} range={analysisRange} onChange={setAnalysisRange} disabled={isLoading} />
+          )}
+
+          {videoUrl && identifiedObjects.length > 0 && analyzedTerms.length > 0 && (
+            <DetectionTimeline
+              videoRef={videoRef}
+              terms={analyzedTerms}
+              detections={visibleObjects}
+              colorForTerm={colorForTerm}
+              onSeek={handleCardClick}
+            />
+          )}
+
+          {identifiedObjects.length > 0 && analyzedTerms.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2" aria-label="Overlay labels">
+              <span className="text-sm text-gray-400">Show on player:</span>
+              {analyzedTerms.map(term => {
+                const visible = !hiddenTerms.has(term);
+                return (
+                  <button
+                    key={term}
+                    onClick={() => toggleTerm(term)}
+                    aria-pressed={visible}
+                    className={`inline-flex items-center gap-2 px-3 py-1 text-sm rounded-full border transition-colors ${visible ? 'border-gray-500 text-gray-100' : 'border-gray-700 text-gray-500 line-through'}`}
+                  >
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorForTerm(term) }} />
+                    {term}
+                    <span className="text-gray-400 tabular-nums">{termCounts.get(term) ?? 0}</span>
+                  </button>
+                );
+              })}
             </div>
           )}
           
+          <QueryBuilder query={query} onChange={setQuery} disabled={isLoading} />
+
           <div>
-              <label htmlFor="object-query" className="block text-sm font-medium text-gray-300 mb-2">
-                Objects to Identify (comma-separated):
+              <label htmlFor="detection-provider" className="block text-sm font-medium text-gray-300 mb-2">
+                Detection Backend:
               </label>
-              <input
-                type="text"
-                id="object-query"
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
+              <select
+                id="detection-provider"
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value)}
                 disabled={isLoading}
-                placeholder="e.g., chair, sofa, firearm"
                 className="w-full bg-gray-900/50 border border-gray-600 rounded-lg px-4 py-2 text-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-              />
+              >
+                {detectionProviders.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{getDetectionProvider(providerId).description}</p>
             </div>
 
+          {getDetectionProvider(providerId).supportsFrameSampling && (
+            <AnalysisModePicker
+              mode={analysisMode}
+              onModeChange={setAnalysisMode}
+              sampling={frameSampling}
+              onSamplingChange={handleFrameSamplingChange}
+              disabled={isLoading}
+            />
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includePrices}
+              onChange={(e) => setIncludePrices(e.target.checked)}
+              disabled={isLoading}
+            />
+            Estimate prices
+            <span className="text-xs text-gray-500">(adds a market price range to each detection and a total value)</span>
+          </label>
+
           <div className="flex justify-center">
-            <button
-              onClick={handleIdentifyClick}
-              disabled={!videoFile || isLoading || !query.trim()}
-              className="inline-flex items-center justify-center gap-2 px-8 py-3 font-semibold text-white bg-indigo-600 rounded-full shadow-lg hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
-            >
-              {isLoading ? (
-                <>
-                  <Loader />
-                  Analyzing...
-                </>
-              ) : (
-                <>
-                  <SparklesIcon className="w-5 h-5" />
-                  Identify Objects
-                </>
-              )}
-            </button>
+            {isLoading ? (
+              <div className="w-full">
+                <AnalysisStatus progress={progress ?? { stage: 'reading' }} onCancel={() => abortRef.current?.abort()} />
+              </div>
+            ) : (
+              <button
+                onClick={() => handleIdentifyClick()}
+                disabled={!videoFile || query.include.length === 0}
+                className="inline-flex items-center justify-center gap-2 px-8 py-3 font-semibold text-white bg-indigo-600 rounded-full shadow-lg hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+              >
+                <SparklesIcon className="w-5 h-5" />
+                Identify Objects
+              </button>
+            )}
           </div>
           
-          {error && <div className="text-center p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{error}</div>}
+          <UsageSummary
+            estimate={!isLoading && videoDuration !== null && query.include.length > 0
+              ? estimateChunkedUsage(getDetectionProvider(providerId), videoDuration, includedTerms(query), {
+                ...modelSettings,
+                range: analysisRange ?? undefined,
+                mode: analysisMode,
+                sampling: frameSampling,
+              })
+              : undefined}
+            run={runUsage}
+            session={sessionUsage}
+          />
+
+          {error && (
+            <div className="text-center p-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg" role="alert">
+              <p>{error.message}</p>
+              {error.hint && <p className="mt-1 text-sm text-red-200/70">{error.hint}</p>}
+            </div>
+          )}
 
-          {identifiedObjects.length > 0 && (
+          {!isLoading && <ValidationReport issues={validationIssues} />}
+
+          {batch.items.length > 0 && (
             <div className="pt-6 border-t border-gray-700">
-              <h2 className="text-2xl font-semibold text-center mb-6">Detected Objects:</h2>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 place-items-center">
-                {identifiedObjects.map((obj, index) => (
-                  <ObjectTag 
-                    key={`${index}-${obj.name}`} 
-                    name={obj.name} 
-                    imageUrl={obj.imageUrl} 
-                    price={obj.price}
-                    timestamp={obj.timestamp}
-                    onClick={handleCardClick}
-                  />
-                ))}
+              <BatchQueue
+                items={batch.items}
+                concurrency={batch.concurrency}
+                isRunning={batch.isRunning}
+                canStart={query.include.length > 0}
+                hasAnalysisRange={analysisRange !== null}
+                onConcurrencyChange={batch.setConcurrency}
+                onStart={handleStartBatch}
+                onCancel={batch.cancel}
+                onRetry={handleRetryBatchItem}
+                onRemove={batch.remove}
+                onClear={batch.clear}
+                onOpen={handleOpenResult}
+              />
+            </div>
+          )}
+
+          {(identifiedObjects.length > 0 || (rawJsonOutput && !isLoading)) && (
+            <div className="pt-6 border-t border-gray-700">
+              <h2 className="text-2xl font-semibold text-center mb-2">Detected Objects:</h2>
+              {runInfo && (
+                <p className="text-xs text-gray-500 text-center mb-2">
+                  {runInfo.model} · {runInfo.templateName} template · temperature {runInfo.temperature}
+                  {runInfo.mediaResolution === 'low' && ' · low media resolution'}
+                  {runInfo.mode === 'frames' ? ` · ${runInfo.frameCount ?? 0} sampled frames` : runInfo.mode === 'video' && ' · whole video'}
+                </p>
+              )}
+              {cachedAt && (
+                <div className="flex flex-wrap items-center justify-center gap-3 mb-2 text-sm">
+                  <span className="px-2 py-0.5 rounded-full bg-emerald-900/50 border border-emerald-700 text-emerald-200">
+                    Cached result from {new Date(cachedAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => handleIdentifyClick({ refreshCache: true })}
+                    disabled={isLoading || !videoFile}
+                    className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                  >
+                    Force re-analyze
+                  </button>
+                </div>
+              )}
+              <div className="flex justify-center mb-6">
+                <button
+                  onClick={() => setEditorTarget({ detection: null, timestamp: videoRef.current?.currentTime ?? 0 })}
+                  disabled={!videoFile}
+                  title={videoFile ? undefined : 'Attach the video to add detections'}
+                  className="text-sm text-indigo-400 hover:text-indigo-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                  + Add missing detection
+                </button>
               </div>
+              {identifiedObjects.length > 0 && (
+                <ResultsToolbar
+                  threshold={confidenceThreshold}
+                  onThresholdChange={setConfidenceThreshold}
+                  sort={resultSort}
+                  onSortChange={setResultSort}
+                  groupByTerm={groupResults}
+                  onGroupByTermChange={setGroupResults}
+                  view={resultView}
+                  onViewChange={setResultView}
+                  shownCount={shownObjects.length}
+                  totalCount={identifiedObjects.length}
+                  instanceCount={resultView === 'instances' ? visibleObjects.length : undefined}
+                />
+              )}
+              {visibleObjects.some(obj => obj.priceRange) && (
+                <ValueSummary
+                  objects={visibleObjects}
+                  settings={currencySettings}
+                  onSettingsChange={handleCurrencySettingsChange}
+                />
+              )}
+              {(groupResults ? groupByTerm(visibleObjects, analyzedTerms) : [{ term: null, objects: visibleObjects }]).map(group => (
+                <section key={group.term ?? 'all'} className="mb-8">
+                  {group.term !== null && (
+                    <h3 className="flex items-center gap-2 text-lg font-semibold mb-4">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: colorForTerm(group.term) }} />
+                      {group.term} ({group.objects.length})
+                    </h3>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 place-items-center">
+                    {group.objects.map((obj) => (
+                      <ObjectTag 
+                        key={obj.id} 
+                        name={obj.name} 
+                        imageUrl={obj.imageUrl} 
+                        thumbnailUrl={obj.thumbnailUrl}
+                        price={formatDetectionPrice(obj, currencySettings)}
+                        timestamp={obj.timestamp}
+                        firstSeen={obj.firstSeen}
+                        lastSeen={obj.lastSeen}
+                        confidence={obj.confidence}
+                        sightings={sightingsById.get(obj.id)}
+                        origin={obj.origin}
+                        edited={obj.edited}
+                        onClick={handleCardClick}
+                        onEdit={() => setEditorTarget({
+                          detection: identifiedObjects.find(o => o.id === obj.id) ?? obj,
+                          timestamp: obj.timestamp,
+                        })}
+                      />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+
+          {identifiedObjects.length > 0 && (videoFile || missingVideo) && !isLoading && (
+            <div className="pt-6 border-t border-gray-700">
+              <h2 className="text-2xl font-semibold text-center mb-6">Export Results:</h2>
+              <ExportPanel objects={identifiedObjects} videoName={videoFile?.name ?? missingVideo!.name} targetObjects={analyzedTerms} />
+              {videoFile && (
+                <div className="mt-6">
+                  <VideoRenderPanel videoFile={videoFile} objects={identifiedObjects} terms={analyzedTerms} colorForTerm={colorForTerm} />
+                </div>
+              )}
             </div>
           )}
 
           {rawJsonOutput && !isLoading && (
             <div className="pt-6 border-t border-gray-700">
               <h2 className="text-2xl font-semibold text-center mb-6">Raw JSON Output:</h2>
+              <div className="flex justify-end mb-2">
+                <button
+                  onClick={handleDownloadFixture}
+                  className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+                >
+                  Download as replay fixture
+                </button>
+              </div>
               <pre className="bg-gray-950/50 border border-gray-700 rounded-lg p-4 overflow-x-auto text-sm text-yellow-300/80 font-mono">
                 <code>
-                  {JSON.stringify(JSON.parse(rawJsonOutput), null, 2)}
+                  {formatRawJson(rawJsonOutput)}
                 </code>
               </pre>
             </div>
@@ -321,6 +939,38 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={modelSettings}
+          onSettingsChange={handleModelSettingsChange}
+          customTemplates={customTemplates}
+          onCustomTemplatesChange={setCustomTemplates}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {editorTarget && (
+        <DetectionEditor
+          detection={editorTarget.detection}
+          videoFile={videoFile}
+          terms={analyzedTerms}
+          initialTimestamp={editorTarget.timestamp}
+          onSave={handleSaveDetection}
+          onDelete={editorTarget.detection ? handleDeleteDetection : undefined}
+          onClose={() => setEditorTarget(null)}
+        />
+      )}
+
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        analyses={history}
+        activeId={activeAnalysisId}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenAnalysis}
+        onRename={handleRenameAnalysis}
+        onDelete={handleDeleteAnalysis}
+      />
+
       <footer className="w-full max-w-4xl mx-auto text-center py-6 text-gray-500">
         <a href="https://github.com/google/genai-js" target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 hover:text-indigo-400 transition-colors">
           <GithubIcon className="w-5 h-5" />
@@ -0,0 +1,105 @@
+import React from 'react';
+import { AnalysisMode, FrameSamplingSettings } from '../types';
+import { MAX_FRAME_DIMENSION, MIN_FRAME_DIMENSION, MIN_SAMPLING_INTERVAL } from '../services/frameSampling';
+import { MAX_FRAME_DATA_BYTES, MAX_FRAMES_PER_REQUEST } from '../services/detectionRequest';
+
+interface AnalysisModePickerProps {
+  mode: AnalysisMode;
+  onModeChange: (mode: AnalysisMode) => void;
+  sampling: FrameSamplingSettings;
+  onSamplingChange: (sampling: FrameSamplingSettings) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { value: AnalysisMode; label: string }[] = [
+  { value: 'video', label: 'Whole video' },
+  { value: 'frames', label: 'Sampled frames' },
+];
+
+const inputClasses = 'w-20 bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100';
+
+/**
+ * Whether the model is sent the video or frames sampled from it, and how those frames are picked.
+ */
+const AnalysisModePicker: React.FC<AnalysisModePickerProps> = ({ mode, onModeChange, sampling, onSamplingChange, disabled }) => {
+  const update = (changes: Partial<FrameSamplingSettings>) => onSamplingChange({ ...sampling, ...changes });
+  const clamp = (value: string, min: number, max: number, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && value !== '' ? Math.min(max, Math.max(min, n)) : fallback;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-gray-300">Send to the model:</span>
+        <div className="inline-flex rounded-lg border border-gray-600 overflow-hidden" role="group" aria-label="Analysis mode">
+          {MODE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onModeChange(option.value)}
+              disabled={disabled}
+              aria-pressed={mode === option.value}
+              className={`px-3 py-1 transition-colors disabled:cursor-not-allowed ${mode === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === 'frames' && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+          <select
+            value={sampling.strategy}
+            onChange={(e) => update({ strategy: e.target.value === 'scene' ? 'scene' : 'interval' })}
+            disabled={disabled}
+            aria-label="Frame sampling strategy"
+            className="bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100"
+          >
+            <option value="interval">Every</option>
+            <option value="scene">On scene changes, checking every</option>
+          </select>
+          <input
+            type="number"
+            min={MIN_SAMPLING_INTERVAL}
+            step={0.5}
+            value={sampling.intervalSeconds}
+            onChange={(e) => update({ intervalSeconds: clamp(e.target.value, MIN_SAMPLING_INTERVAL, Infinity, sampling.intervalSeconds) })}
+            disabled={disabled}
+            aria-label="Sampling interval in seconds"
+            className={inputClasses}
+          />
+          <span>s, at most</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_FRAMES_PER_REQUEST}
+            value={sampling.maxFrames}
+            onChange={(e) => update({ maxFrames: Math.round(clamp(e.target.value, 1, MAX_FRAMES_PER_REQUEST, sampling.maxFrames)) })}
+            disabled={disabled}
+            aria-label="Maximum frames per request"
+            className={inputClasses}
+          />
+          <span>frames per request, up to</span>
+          <input
+            type="number"
+            min={MIN_FRAME_DIMENSION}
+            max={MAX_FRAME_DIMENSION}
+            step={64}
+            value={sampling.maxDimension}
+            onChange={(e) => update({ maxDimension: Math.round(clamp(e.target.value, MIN_FRAME_DIMENSION, MAX_FRAME_DIMENSION, sampling.maxDimension)) })}
+            disabled={disabled}
+            aria-label="Maximum frame size in pixels"
+            className={inputClasses}
+          />
+          <span>px</span>
+          <p className="w-full text-xs text-gray-500">
+            Frames are sent as images with their exact timestamps; detections land on those frames only. Frames are
+            shrunk further when together they would exceed {MAX_FRAME_DATA_BYTES / 1024 / 1024} MB.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisModePicker;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimeWindow } from '../types';
+import { formatTime } from '../utils/time';
+
+interface AnalysisRangeBarProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Null analyzes the whole video. */
+  range: TimeWindow | null;
+  onChange: (range: TimeWindow | null) => void;
+  disabled?: boolean;
+}
+
+type DragTarget = 'start' | 'end' | 'range';
+
+const MIN_RANGE_SECONDS = 1;
+
+const buttonClasses = 'px-2 py-1 rounded border border-gray-600 text-gray-200 hover:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * In and out points for the part of the video to analyze: set from the player's current time, or by dragging
+ * the handles (or the whole selection) along the scrub bar.
+ */
+const AnalysisRangeBar: React.FC<AnalysisRangeBarProps> = ({ videoRef, range, onChange, disabled }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ target: DragTarget; fromTime: number; from: TimeWindow } | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const syncTime = () => setCurrentTime(video.currentTime);
+    const syncDuration = () => setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+
+    syncTime();
+    syncDuration();
+    video.addEventListener('timeupdate', syncTime);
+    video.addEventListener('seeked', syncTime);
+    video.addEventListener('loadedmetadata', syncDuration);
+    video.addEventListener('durationchange', syncDuration);
+
+    return () => {
+      video.removeEventListener('timeupdate', syncTime);
+      video.removeEventListener('seeked', syncTime);
+      video.removeEventListener('loadedmetadata', syncDuration);
+      video.removeEventListener('durationchange', syncDuration);
+    };
+  }, [videoRef]);
+
+  const selection = range ?? { start: 0, end: duration };
+  const toPercent = (time: number) => `${duration ? Math.min(100, Math.max(0, (time / duration) * 100)) : 0}%`;
+  const clampTime = (time: number) => Math.min(duration, Math.max(0, time));
+
+  const timeAt = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    return rect && rect.width ? clampTime(((clientX - rect.left) / rect.width) * duration) : 0;
+  };
+
+  const seek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  // A selection covering the whole video is the same as no selection.
+  const update = (next: TimeWindow) => {
+    onChange(next.start <= 0 && next.end >= duration ? null : next);
+  };
+
+  const setIn = () => update({ start: Math.max(0, Math.min(currentTime, selection.end - MIN_RANGE_SECONDS)), end: selection.end });
+  const setOut = () => update({ start: selection.start, end: Math.min(duration, Math.max(currentTime, selection.start + MIN_RANGE_SECONDS)) });
+
+  const handlePointerDown = (target: DragTarget) => (e: React.PointerEvent<HTMLElement>) => {
+    if (disabled || !duration) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { target, fromTime: timeAt(e.clientX), from: selection };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+    const { start, end } = drag.from;
+    if (drag.target === 'start') {
+      const next = Math.min(time, end - MIN_RANGE_SECONDS);
+      update({ start: Math.max(0, next), end });
+      seek(Math.max(0, next));
+    } else if (drag.target === 'end') {
+      const next = Math.max(time, start + MIN_RANGE_SECONDS);
+      update({ start, end: Math.min(duration, next) });
+      seek(Math.min(duration, next));
+    } else {
+      const length = end - start;
+      const shifted = Math.min(duration - length, Math.max(0, start + time - drag.fromTime));
+      update({ start: shifted, end: shifted + length });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (duration) seek(timeAt(e.clientX));
+  };
+
+  return (
+    <div className="space-y-2" aria-label="Analysis range">
+      <div
+        ref={trackRef}
+        className={`relative h-8 bg-gray-900/60 rounded select-none touch-none ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+        onClick={handleTrackClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className={`absolute top-1 bottom-1 rounded ${range ? 'bg-indigo-500/40 border border-indigo-400' : 'bg-gray-700/40'} ${range && !disabled ? 'cursor-grab' : ''}`}
+          style={{ left: toPercent(selection.start), width: `calc(${toPercent(selection.end)} - ${toPercent(selection.start)})` }}
+          onPointerDown={range ? handlePointerDown('range') : undefined}
+          onClick={(e) => e.stopPropagation()}
+        />
+        {(['start', 'end'] as const).map(edge => (
+          <div
+            key={edge}
+            role="slider"
+            aria-label={edge === 'start' ? 'In point' : 'Out point'}
+            aria-valuemin={0}
+            aria-valuemax={duration}
+            aria-valuenow={selection[edge]}
+            aria-valuetext={formatTime(selection[edge])}
+            className={`absolute top-0 bottom-0 w-2 -ml-1 rounded-sm bg-indigo-300 ${disabled ? '' : 'cursor-ew-resize hover:bg-white'}`}
+            style={{ left: toPercent(selection[edge]) }}
+            onPointerDown={handlePointerDown(edge)}
+            onClick={(e) => e.stopPropagation()}
+          />
+        ))}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: toPercent(currentTime) }} />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-400">
+          {range
+            ? <>Analyze {formatTime(range.start)} – {formatTime(range.end)} <span className="text-gray-500">({(range.end - range.start).toFixed(1)} s)</span></>
+            : 'Analyze the whole video'}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button onClick={setIn} disabled={disabled || !duration} className={buttonClasses} title="Start the range at the current time">Set in</button>
+          <button onClick={setOut} disabled={disabled || !duration} className={buttonClasses} title="End the range at the current time">Set out</button>
+          <button onClick={() => onChange(null)} disabled={disabled || !range} className={buttonClasses}>Whole video</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisRangeBar;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AnalysisErrorKind, AnalysisProgress, AnalysisStage } from '../types';
+import Loader from './Loader';
+
+interface AnalysisStatusProps {
+  progress: AnalysisProgress;
+  onCancel: () => void;
+}
+
+const STEPS: { label: string; stages: AnalysisStage[] }[] = [
+  { label: 'Send video', stages: ['reading', 'sampling', 'uploading'] },
+  { label: 'Wait for model', stages: ['waiting'] },
+  { label: 'Validate', stages: ['validating'] },
+  { label: 'Extract frames', stages: ['extracting'] },
+];
+
+const RETRY_REASONS: Partial<Record<AnalysisErrorKind, string>> = {
+  quota: 'rate limited',
+  unavailable: 'model overloaded',
+  network: 'network error',
+  'malformed-response': 'unusable response',
+};
+
+const describeStage = ({ stage, chunks, frames, retry }: AnalysisProgress): string => {
+  if (retry) {
+    const reason = RETRY_REASONS[retry.kind] ?? 'request failed';
+    return `${reason[0].toUpperCase()}${reason.slice(1)}; retrying in ${Math.ceil(retry.delayMs / 1000)}s (attempt ${retry.attempt + 1} of ${retry.maxAttempts})...`;
+  }
+  switch (stage) {
+    case 'reading':
+      return 'Reading video file...';
+    case 'sampling':
+      return 'Sampling frames from the video...';
+    case 'uploading':
+      return 'Uploading video...';
+    case 'waiting': {
+      const chunk = chunks && chunks.totalChunks > 1
+        ? ` (chunk ${Math.min(chunks.completedChunks + 1, chunks.totalChunks)} of ${chunks.totalChunks})`
+        : '';
+      return `Waiting for the model${chunk}...`;
+    }
+    case 'validating':
+      return 'Validating the response...';
+    case 'extracting':
+      return frames ? `Extracting frames ${frames.completed}/${frames.total}...` : 'Extracting frames...';
+  }
+};
+
+const AnalysisStatus: React.FC<AnalysisStatusProps> = ({ progress, onCancel }) => {
+  const currentStep = STEPS.findIndex(step => step.stages.includes(progress.stage));
+
+  return (
+    <div className="space-y-3" role="status" aria-live="polite">
+      <ol className="flex items-center gap-2 text-xs">
+        {STEPS.map((step, index) => (
+          <li key={step.label} className="flex-1">
+            <div className={`h-1.5 rounded-full ${index < currentStep ? 'bg-indigo-500' : index === currentStep ? 'bg-indigo-400 animate-pulse' : 'bg-gray-700'}`} />
+            <span className={`block mt-1 ${index <= currentStep ? 'text-gray-200' : 'text-gray-500'}`}>{step.label}</span>
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-center gap-4">
+        <span className="inline-flex items-center text-sm text-gray-300">
+          <Loader />
+          {describeStage(progress)}
+        </span>
+        <button
+          onClick={onCancel}
+          className="px-4 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-full hover:border-red-500 hover:text-red-300 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisStatus;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { BatchItem, BatchStatus } from '../hooks/useBatchQueue';
+import { formatTime } from '../utils/time';
+import { formatCost, sumUsage } from '../services/usage';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  concurrency: number;
+  isRunning: boolean;
+  canStart: boolean;
+  /** Whether an analysis range is set on the loaded video; batch runs analyze each video in full. */
+  hasAnalysisRange: boolean;
+  onConcurrencyChange: (concurrency: number) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpen: (item: BatchItem, timestamp?: number) => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  uploading: 'bg-blue-900/60 text-blue-300',
+  analyzing: 'bg-indigo-900/60 text-indigo-300',
+  done: 'bg-green-900/60 text-green-300',
+  failed: 'bg-red-900/60 text-red-300',
+};
+
+const describeStatus = (item: BatchItem): string => {
+  if (item.status === 'analyzing' && item.chunkProgress && item.chunkProgress.totalChunks > 1) {
+    return `analyzing ${item.chunkProgress.completedChunks}/${item.chunkProgress.totalChunks}`;
+  }
+  return item.status;
+};
+
+const countByTerm = (item: BatchItem): [string, number][] => {
+  const counts = new Map<string, number>();
+  item.objects.forEach(obj => counts.set(obj.queryTerm, (counts.get(obj.queryTerm) ?? 0) + 1));
+  return [...counts.entries()];
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items, concurrency, isRunning, canStart, hasAnalysisRange, onConcurrencyChange, onStart, onCancel, onRetry, onRemove, onClear, onOpen,
+}) => {
+  const hasPending = items.some(item => item.status === 'pending');
+  const doneItems = items.filter(item => item.status === 'done');
+  const totalDetections = doneItems.reduce((sum, item) => sum + item.objects.length, 0);
+  const totalUsage = sumUsage(doneItems.map(item => item.usage ?? undefined));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Batch Queue ({items.length} video{items.length === 1 ? '' : 's'})</h2>
+        <div className="flex items-center gap-3">
+          <label htmlFor="batch-concurrency" className="text-sm text-gray-400">Parallel:</label>
+          <input
+            id="batch-concurrency"
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-16 bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1 text-gray-100"
+          />
+          {isRunning ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-1.5 text-sm font-semibold text-gray-100 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={!canStart || !hasPending}
+              className="px-4 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-full hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Analyze All
+            </button>
+          )}
+          <button onClick={onClear} disabled={isRunning} className="text-sm text-gray-400 hover:text-gray-200 disabled:opacity-50">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Videos are analyzed with the current model settings and analysis mode
+        {hasAnalysisRange && ', in full: the analysis range only applies to the loaded video'}.
+      </p>
+
+      <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+            <span className="flex-1 truncate" title={item.file.name}>{item.file.name}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[item.status]}`}>{describeStatus(item)}</span>
+            {item.status === 'done' && (
+              <button onClick={() => onOpen(item)} className="text-indigo-400 hover:text-indigo-300">View</button>
+            )}
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item.id)} title={item.error ? [item.error.message, item.error.hint].filter(Boolean).join('\n') : undefined} className="text-yellow-400 hover:text-yellow-300">Retry</button>
+            )}
+            <button onClick={() => onRemove(item.id)} className="text-gray-500 hover:text-red-400" aria-label={`Remove ${item.file.name}`}>✕</button>
+          </li>
+        ))}
+      </ul>
+
+      {doneItems.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">
+            Combined Results ({totalDetections} detection{totalDetections === 1 ? '' : 's'}{totalUsage && ` · ${formatCost(totalUsage.costUsd)}`})
+          </h3>
+          {doneItems.map(item => (
+            <section key={item.id} className="bg-gray-900/40 border border-gray-700 rounded-lg p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                <button onClick={() => onOpen(item)} className="font-medium text-gray-100 hover:text-indigo-300 truncate">
+                  {item.file.name}
+                </button>
+                <span className="text-xs text-gray-400">
+                  {item.objects.length === 0
+                    ? 'No matches'
+                    : countByTerm(item).map(([term, count]) => `${count} ${term}`).join(' · ')}
+                </span>
+              </div>
+              {item.objects.length > 0 && (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {item.objects.map((obj, index) => (
+                    <button
+                      key={`${index}-${obj.name}`}
+                      onClick={() => onOpen(item, obj.timestamp)}
+                      className="shrink-0 w-28 text-left group"
+                      title={`${obj.name} at ${formatTime(obj.timestamp)}`}
+                    >
+                      {obj.thumbnailUrl ? (
+                        <img src={obj.thumbnailUrl} alt={`A snapshot of: ${obj.name}`} className="w-28 h-20 object-contain bg-gray-900 rounded border border-gray-700 group-hover:border-indigo-500" />
+                      ) : (
+                        <div className="w-28 h-20 bg-gray-700 rounded" />
+                      )}
+                      <span className="block mt-1 text-xs text-gray-300 truncate">{obj.name}</span>
+                      <span className="block text-xs text-gray-500">{formatTime(obj.timestamp)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptureSource, ClipRecording, openCaptureStream, startRecording, stopStream } from '../services/mediaCapture';
+
+interface CapturePanelProps {
+  disabled?: boolean;
+  /** Called with a reviewed recording to load it as the current video. */
+  onUseClip: (file: File) => void;
+  isSampling: boolean;
+  /** Whether live sampling can start, i.e. there is something to look for. */
+  canSample: boolean;
+  onStartSampling: (stream: MediaStream, intervalSeconds: number) => void;
+  onStopSampling: () => void;
+}
+
+const SOURCES: { value: CaptureSource; label: string }[] = [
+  { value: 'camera', label: 'Camera' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'test-pattern', label: 'Test pattern' },
+];
+
+const DEFAULT_SAMPLE_SECONDS = 10;
+const MIN_SAMPLE_SECONDS = 3;
+const MAX_SAMPLE_SECONDS = 60;
+
+const buttonClasses = 'px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Records from a camera, a shared screen or a test pattern. A recording can be reviewed and then analyzed
+ * like an uploaded file, or the stream can be sampled in rolling clips for live results.
+ */
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  disabled, onUseClip, isSampling, canSample, onStartSampling, onStopSampling,
+}) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [recording, setRecording] = useState<ClipRecording | null>(null);
+  const [review, setReview] = useState<{ file: File; url: string } | null>(null);
+  const [sampleSeconds, setSampleSeconds] = useState<number>(DEFAULT_SAMPLE_SECONDS);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+    if (!stream) return;
+    // The browser's own "stop sharing" button ends the track without going through closeStream.
+    const [track] = stream.getVideoTracks();
+    const onEnded = () => setStream(null);
+    track?.addEventListener('ended', onEnded);
+    return () => track?.removeEventListener('ended', onEnded);
+  }, [stream]);
+
+  useEffect(() => {
+    return () => {
+      if (review) URL.revokeObjectURL(review.url);
+    };
+  }, [review]);
+
+  // Release the camera or screen when the panel goes away.
+  useEffect(() => () => {
+    if (stream) stopStream(stream);
+  }, [stream]);
+
+  const openStream = async (source: CaptureSource) => {
+    setError(null);
+    try {
+      if (stream) stopStream(stream);
+      setStream(await openCaptureStream(source));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not start capture.');
+    }
+  };
+
+  const closeStream = () => {
+    recording?.discard();
+    setRecording(null);
+    if (isSampling) onStopSampling();
+    if (stream) stopStream(stream);
+    setStream(null);
+  };
+
+  const handleStartRecording = () => {
+    if (!stream) return;
+    setReview(null);
+    setRecording(startRecording(stream));
+  };
+
+  const handleStopRecording = async () => {
+    if (!recording) return;
+    setRecording(null);
+    const file = await recording.stop();
+    setReview({ file, url: URL.createObjectURL(file) });
+  };
+
+  const handleUseClip = () => {
+    if (!review) return;
+    onUseClip(review.file);
+    closeStream();
+    setReview(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-400">Or capture from:</span>
+        {SOURCES.map(source => (
+          <button
+            key={source.value}
+            onClick={() => openStream(source.value)}
+            disabled={disabled || !!recording || isSampling}
+            className={`${buttonClasses} border-gray-600 text-gray-200 hover:border-indigo-500 hover:text-indigo-300`}
+          >
+            {source.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {stream && (
+        <div className="space-y-3 p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+          <video ref={previewRef} autoPlay muted playsInline className="w-full max-h-[300px] bg-black rounded" aria-label="Capture preview" />
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {recording ? (
+              <button onClick={handleStopRecording} className={`${buttonClasses} border-red-600 text-red-200 bg-red-900/40 hover:bg-red-900/60`}>
+                <span className="inline-block w-2 h-2 mr-2 rounded-full bg-red-500 animate-pulse" />
+                Stop recording
+              </button>
+            ) : (
+              <button
+                onClick={handleStartRecording}
+                disabled={disabled || isSampling}
+                className={`${buttonClasses} border-gray-600 text-gray-200 hover:border-indigo-500`}
+              >
+                Record clip
+              </button>
+            )}
+            <span className="text-gray-600">|</span>
+            <label htmlFor="sample-seconds" className="text-gray-400">Sample every</label>
+            <input
+              id="sample-seconds"
+              type="number"
+              min={MIN_SAMPLE_SECONDS}
+              max={MAX_SAMPLE_SECONDS}
+              value={sampleSeconds}
+              onChange={(e) => setSampleSeconds(Math.min(MAX_SAMPLE_SECONDS, Math.max(MIN_SAMPLE_SECONDS, Number(e.target.value) || DEFAULT_SAMPLE_SECONDS)))}
+              disabled={isSampling}
+              className="w-16 bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100"
+            />
+            <span className="text-gray-400">seconds</span>
+            {isSampling ? (
+              <button onClick={onStopSampling} className={`${buttonClasses} border-red-600 text-red-200 hover:bg-red-900/40`}>
+                Stop live sampling
+              </button>
+            ) : (
+              <button
+                onClick={() => onStartSampling(stream, sampleSeconds)}
+                disabled={disabled || !!recording || !canSample}
+                title={canSample ? undefined : 'Add objects to identify first'}
+                className={`${buttonClasses} border-indigo-500 text-indigo-200 hover:bg-indigo-900/40`}
+              >
+                Start live sampling
+              </button>
+            )}
+            <button onClick={closeStream} className="ml-auto text-gray-400 hover:text-gray-100">Close</button>
+          </div>
+        </div>
+      )}
+
+      {review && (
+        <div className="space-y-3 p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+          <p className="text-sm text-gray-300">Review the recording before analyzing it:</p>
+          <video src={review.url} controls className="w-full max-h-[300px] bg-black rounded" aria-label="Recorded clip" />
+          <div className="flex gap-3 text-sm">
+            <button onClick={handleUseClip} disabled={disabled} className={`${buttonClasses} border-indigo-500 bg-indigo-600 text-white hover:bg-indigo-500`}>
+              Use this clip
+            </button>
+            <button onClick={() => setReview(null)} className="text-gray-400 hover:text-gray-100">Discard</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, IdentifiedObject } from '../types';
+import { extractFrameFromVideo } from '../services/frameService';
+import { getVideoMetadata } from '../services/videoMetadata';
+import { formatTime } from '../utils/time';
+import { XIcon } from './Icons';
+
+export interface DetectionDraft {
+  name: string;
+  description: string;
+  price: string;
+  queryTerm: string;
+  timestamp: number;
+  boundingBox: BoundingBox;
+}
+
+interface DetectionEditorProps {
+  /** The detection being corrected, or null when adding a missing one. */
+  detection: IdentifiedObject | null;
+  videoFile: File | null;
+  terms: string[];
+  initialTimestamp: number;
+  onSave: (draft: DetectionDraft) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'draw' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startBox: BoundingBox;
+}
+
+const MIN_BOX_SIZE = 0.01;
+const FRAME_DEBOUNCE_MS = 250;
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+const normalizeBox = (x1: number, y1: number, x2: number, y2: number): BoundingBox => ({
+  x_min: clamp01(Math.min(x1, x2)),
+  y_min: clamp01(Math.min(y1, y2)),
+  x_max: clamp01(Math.max(x1, x2)),
+  y_max: clamp01(Math.max(y1, y2)),
+});
+
+/**
+ * Computes the box that results from dragging by (dx, dy) in the given mode.
+ */
+const applyDrag = ({ mode, startX, startY, startBox: b }: DragState, x: number, y: number): BoundingBox => {
+  const dx = x - startX;
+  const dy = y - startY;
+  switch (mode) {
+    case 'draw':
+      return normalizeBox(startX, startY, x, y);
+    case 'move': {
+      const width = b.x_max - b.x_min;
+      const height = b.y_max - b.y_min;
+      const x_min = Math.min(1 - width, Math.max(0, b.x_min + dx));
+      const y_min = Math.min(1 - height, Math.max(0, b.y_min + dy));
+      return { x_min, y_min, x_max: x_min + width, y_max: y_min + height };
+    }
+    case 'nw':
+      return normalizeBox(b.x_min + dx, b.y_min + dy, b.x_max, b.y_max);
+    case 'ne':
+      return normalizeBox(b.x_min, b.y_min + dy, b.x_max + dx, b.y_max);
+    case 'sw':
+      return normalizeBox(b.x_min + dx, b.y_min, b.x_max, b.y_max + dy);
+    case 'se':
+      return normalizeBox(b.x_min, b.y_min, b.x_max + dx, b.y_max + dy);
+  }
+};
+
+const HANDLE_POSITIONS: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { mode: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { mode: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { mode: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+const inputClasses = 'w-full bg-gray-900/50 border border-gray-600 rounded-lg px-3 py-2 text-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors';
+
+const DetectionEditor: React.FC<DetectionEditorProps> = ({ detection, videoFile, terms, initialTimestamp, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(detection?.name ?? '');
+  const [description, setDescription] = useState(detection?.description ?? '');
+  const [price, setPrice] = useState(detection?.price ?? '');
+  const [queryTerm, setQueryTerm] = useState(detection?.queryTerm ?? terms[0] ?? '');
+  const [timestamp, setTimestamp] = useState(detection?.timestamp ?? initialTimestamp);
+  const [box, setBox] = useState<BoundingBox | null>(detection?.boundingBox ?? null);
+  const [frameUrl, setFrameUrl] = useState<string | null>(detection?.frameUrl ?? null);
+  const [frameError, setFrameError] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (!videoFile) return;
+    getVideoMetadata(videoFile).then(metadata => setDuration(metadata.duration)).catch(() => setDuration(null));
+  }, [videoFile]);
+
+  // Re-capture the frame whenever the user scrubs to a different time.
+  useEffect(() => {
+    if (!videoFile) return;
+    if (detection && detection.frameUrl && timestamp === detection.timestamp) {
+      setFrameUrl(detection.frameUrl);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      extractFrameFromVideo(videoFile, timestamp)
+        .then(url => {
+          if (!cancelled) {
+            setFrameUrl(url);
+            setFrameError(null);
+          }
+        })
+        .catch(e => {
+          if (!cancelled) setFrameError(e instanceof Error ? e.message : 'Could not load the frame.');
+        });
+    }, FRAME_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoFile, timestamp, detection]);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const { x, y } = toPoint(e);
+    const startBox = mode === 'draw' || !box ? { x_min: x, y_min: y, x_max: x, y_max: y } : box;
+    dragRef.current = { mode, startX: x, startY: y, startBox };
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+    if (mode === 'draw') setBox(startBox);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const { x, y } = toPoint(e);
+    setBox(applyDrag(dragRef.current, x, y));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    surfaceRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const boxIsValid = !!box && box.x_max - box.x_min >= MIN_BOX_SIZE && box.y_max - box.y_min >= MIN_BOX_SIZE;
+  const canSave = boxIsValid && !!name.trim();
+
+  const handleSave = () => {
+    if (!canSave || !box) return;
+    onSave({ name: name.trim(), description: description.trim(), price: price.trim(), queryTerm, timestamp, boundingBox: box });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={detection ? `Edit ${detection.name}` : 'Add detection'}>
+      <div className="w-full max-w-4xl max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">{detection ? 'Edit Detection' : 'Add Missing Detection'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-100" aria-label="Close editor">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div
+          ref={surfaceRef}
+          className="relative bg-black rounded-lg overflow-hidden select-none touch-none cursor-crosshair"
+          onPointerDown={frameUrl ? startDrag('draw') : undefined}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {frameUrl ? (
+            <img src={frameUrl} alt="Video frame being annotated" className="block w-full h-auto pointer-events-none" draggable={false} />
+          ) : (
+            <div className="w-full aspect-video flex items-center justify-center text-sm text-gray-500">
+              {frameError ?? (videoFile ? 'Loading frame...' : 'Attach the video to scrub and draw on other frames.')}
+            </div>
+          )}
+          {frameUrl && box && (
+            <div
+              className="absolute border-2 border-yellow-400 bg-yellow-400/10 cursor-move"
+              style={{
+                left: `${box.x_min * 100}%`,
+                top: `${box.y_min * 100}%`,
+                width: `${(box.x_max - box.x_min) * 100}%`,
+                height: `${(box.y_max - box.y_min) * 100}%`,
+              }}
+              onPointerDown={startDrag('move')}
+            >
+              {HANDLE_POSITIONS.map(({ mode, className }) => (
+                <span
+                  key={mode}
+                  className={`absolute w-3 h-3 bg-yellow-400 border border-gray-900 rounded-sm ${className}`}
+                  onPointerDown={startDrag(mode)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">Drag on the frame to draw a new box; drag the box or its corners to adjust it.</p>
+
+        {videoFile && (
+          <div className="flex items-center gap-3">
+            <label htmlFor="editor-timestamp" className="text-sm text-gray-300 shrink-0">Time {formatTime(timestamp)}</label>
+            <input
+              id="editor-timestamp"
+              type="range"
+              min={0}
+              max={duration ?? Math.max(timestamp, 1)}
+              step={0.05}
+              value={timestamp}
+              onChange={(e) => setTimestamp(Number(e.target.value))}
+              className="flex-1"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="editor-name" className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+            <input id="editor-name" value={name} onChange={(e) => setName(e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label htmlFor="editor-term" className="block text-sm font-medium text-gray-300 mb-1">Query term</label>
+            <select id="editor-term" value={queryTerm} onChange={(e) => setQueryTerm(e.target.value)} className={inputClasses}>
+              {terms.map(term => <option key={term} value={term}>{term}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="editor-price" className="block text-sm font-medium text-gray-300 mb-1">Price</label>
+            <input id="editor-price" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label htmlFor="editor-description" className="block text-sm font-medium text-gray-300 mb-1">Description</label>
+            <input id="editor-description" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClasses} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          {onDelete ? (
+            <button onClick={onDelete} className="px-4 py-2 text-sm font-medium text-red-300 border border-red-700 rounded-lg hover:bg-red-900/40 transition-colors">
+              Delete detection
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-300 hover:text-gray-100">Cancel</button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="px-5 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionEditor;
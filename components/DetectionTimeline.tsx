@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { formatTime } from '../utils/time';
+
+export interface TimelineDetection {
+  name: string;
+  queryTerm: string;
+  timestamp: number;
+  firstSeen: number;
+  lastSeen: number;
+  imageUrl: string | null;
+}
+
+interface DetectionTimelineProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  terms: string[];
+  detections: TimelineDetection[];
+  colorForTerm: (term: string) => string;
+  onSeek: (timestamp: number) => void;
+}
+
+const DetectionTimeline: React.FC<DetectionTimelineProps> = ({ videoRef, terms, detections, colorForTerm, onSeek }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [hovered, setHovered] = useState<TimelineDetection | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const syncTime = () => setCurrentTime(video.currentTime);
+    const syncDuration = () => setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+
+    syncTime();
+    syncDuration();
+    video.addEventListener('timeupdate', syncTime);
+    video.addEventListener('seeked', syncTime);
+    video.addEventListener('loadedmetadata', syncDuration);
+    video.addEventListener('durationchange', syncDuration);
+
+    return () => {
+      video.removeEventListener('timeupdate', syncTime);
+      video.removeEventListener('seeked', syncTime);
+      video.removeEventListener('loadedmetadata', syncDuration);
+      video.removeEventListener('durationchange', syncDuration);
+    };
+  }, [videoRef]);
+
+  // Fall back to the latest detection so markers still render before metadata loads.
+  const timelineLength = duration || Math.max(1, ...detections.map(d => d.lastSeen));
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / timelineLength) * 100))}%`;
+
+  const handleLaneClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / rect.width) * timelineLength);
+  };
+
+  return (
+    <div className="space-y-1" aria-label="Detection timeline">
+      {terms.map(term => {
+        const laneDetections = detections.filter(d => d.queryTerm === term);
+        const color = colorForTerm(term);
+        return (
+          <div key={term} className="flex items-center gap-3">
+            <span className="w-24 shrink-0 text-xs text-gray-400 truncate" title={term}>{term}</span>
+            <div className="relative flex-1 h-6 bg-gray-900/60 rounded cursor-pointer" onClick={handleLaneClick}>
+              {laneDetections.map((detection, index) => (
+                <React.Fragment key={`${index}-${detection.name}`}>
+                  {detection.lastSeen > detection.firstSeen && (
+                    <div
+                      className="absolute top-2 h-2 rounded-full opacity-30 pointer-events-none"
+                      style={{
+                        left: toPercent(detection.firstSeen),
+                        width: `calc(${toPercent(detection.lastSeen)} - ${toPercent(detection.firstSeen)})`,
+                        backgroundColor: color,
+                      }}
+                    />
+                  )}
+                  <button
+                    className="absolute top-1 w-2 h-4 -ml-1 rounded-sm hover:scale-125 transition-transform focus:outline-none focus:ring-2 focus:ring-white/60"
+                    style={{ left: toPercent(detection.timestamp), backgroundColor: color }}
+                    onClick={(e) => { e.stopPropagation(); onSeek(detection.timestamp); }}
+                    onMouseEnter={() => setHovered(detection)}
+                    onMouseLeave={() => setHovered(null)}
+                    onFocus={() => setHovered(detection)}
+                    onBlur={() => setHovered(null)}
+                    aria-label={`Seek to ${detection.name} at ${formatTime(detection.timestamp)}`}
+                  />
+                  {hovered === detection && (
+                    <div
+                      className="absolute bottom-full mb-2 -translate-x-1/2 z-10 w-40 bg-gray-800 border border-gray-600 rounded-lg shadow-xl overflow-hidden pointer-events-none"
+                      style={{ left: toPercent(detection.timestamp) }}
+                    >
+                      {detection.imageUrl ? (
+                        <img src={detection.imageUrl} alt={`A snapshot of: ${detection.name}`} className="w-full aspect-video object-cover" />
+                      ) : (
+                        <div className="w-full aspect-video bg-gray-700 animate-pulse" />
+                      )}
+                      <p className="px-2 py-1 text-xs text-gray-200 truncate">{detection.name} · {formatTime(detection.timestamp)}</p>
+                    </div>
+                  )}
+                </React.Fragment>
+              ))}
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none"
+                style={{ left: toPercent(currentTime) }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex justify-between pl-[6.75rem] text-xs text-gray-500">
+        <span>{formatTime(0)}</span>
+        <span>{formatTime(timelineLength)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionTimeline;
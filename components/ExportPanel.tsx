@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { IdentifiedObject } from '../types';
+import { buildExport, ExportFormat } from '../services/exportService';
+import { downloadBlob } from '../utils/download';
+
+interface ExportPanelProps {
+  objects: IdentifiedObject[];
+  videoName: string;
+  targetObjects: string[];
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'webvtt', label: 'WebVTT' },
+  { format: 'coco', label: 'COCO (ZIP)' },
+];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ objects, videoName, targetObjects }) => {
+  const [includeImages, setIncludeImages] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const { blob, fileName } = await buildExport(format, objects, { videoName, targetObjects }, includeImages);
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-wrap justify-center gap-2">
+        {FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="px-4 py-2 text-sm font-medium text-gray-100 bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {exporting === format ? 'Exporting...' : label}
+          </button>
+        ))}
+      </div>
+      <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+        <input
+          type="checkbox"
+          checked={includeImages}
+          onChange={(e) => setIncludeImages(e.target.checked)}
+          className="rounded border-gray-600 bg-gray-900"
+        />
+        Include extracted frames (downloads a ZIP)
+      </label>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { AnalysisSummary } from '../services/historyStore';
+import { XIcon } from './Icons';
+import { formatCost, formatTokens, sumUsage } from '../services/usage';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  analyses: AnalysisSummary[];
+  activeId: string | null;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, analyses, activeId, onClose, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const totalUsage = sumUsage(analyses.map(analysis => analysis.usage));
+
+  const startRename = (analysis: AnalysisSummary) => {
+    setEditingId(analysis.id);
+    setDraftTitle(analysis.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (analysis: AnalysisSummary) => {
+    if (window.confirm(`Delete "${analysis.title}"? This cannot be undone.`)) {
+      onDelete(analysis.id);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/50 z-30" onClick={onClose} aria-hidden="true" />}
+      <aside
+        className={`fixed top-0 left-0 h-full w-80 max-w-full bg-gray-800 border-r border-gray-700 shadow-2xl z-40 flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+        aria-label="Analysis history"
+        aria-hidden={!isOpen}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold">History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-100 transition-colors" aria-label="Close history">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {totalUsage && (
+          <p className="px-4 py-2 text-xs text-gray-400 border-b border-gray-700">
+            Saved analyses: {formatTokens(totalUsage.promptTokens + totalUsage.outputTokens)} tokens · {formatCost(totalUsage.costUsd)}
+          </p>
+        )}
+        <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+          {analyses.length === 0 && (
+            <li className="p-4 text-sm text-center text-gray-500">Finished analyses are saved here automatically.</li>
+          )}
+          {analyses.map(analysis => (
+            <li
+              key={analysis.id}
+              className={`p-3 rounded-lg border ${analysis.id === activeId ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-700 bg-gray-900/40'}`}
+            >
+              {editingId === analysis.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100"
+                  aria-label="Analysis name"
+                />
+              ) : (
+                <button onClick={() => onOpen(analysis.id)} className="block w-full text-left">
+                  <span className="block text-sm font-medium text-gray-100 truncate" title={analysis.title}>{analysis.title}</span>
+                  <span className="block text-xs text-gray-500 mt-1">
+                    {new Date(analysis.createdAt).toLocaleString()} · {analysis.objectCount} detection{analysis.objectCount === 1 ? '' : 's'}
+                    {analysis.usage && ` · ${formatCost(analysis.usage.costUsd)}`}
+                  </span>
+                  {analysis.run && (
+                    <span className="block text-xs text-gray-500 truncate">{analysis.run.model} · {analysis.run.templateName}{analysis.run.mode === 'frames' && ` · ${analysis.run.frameCount ?? 0} frames`}</span>
+                  )}
+                </button>
+              )}
+              <div className="flex gap-3 mt-2 text-xs">
+                <button onClick={() => startRename(analysis)} className="text-indigo-400 hover:text-indigo-300">Rename</button>
+                <button onClick={() => handleDelete(analysis)} className="text-red-400 hover:text-red-300">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { LiveDetection } from '../hooks/useLiveSampling';
+import { ErrorNotice } from '../services/analysisErrors';
+import ObjectTag from './ObjectTag';
+
+interface LiveResultsProps {
+  detections: LiveDetection[];
+  isSampling: boolean;
+  clipCount: number;
+  pendingCount: number;
+  droppedCount: number;
+  /** Older clips forgotten to keep the session bounded; their detections are no longer listed. */
+  expiredCount: number;
+  error: ErrorNotice | null;
+  /** Opens the clip a detection came from in the main player. */
+  onOpen: (detection: LiveDetection) => void;
+  onClear: () => void;
+}
+
+/**
+ * Detections from live sampling, newest first, with times measured from the start of the session.
+ */
+const LiveResults: React.FC<LiveResultsProps> = ({ detections, isSampling, clipCount, pendingCount, droppedCount, expiredCount, error, onOpen, onClear }) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        {isSampling && <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />}
+        Live Detections ({detections.length})
+      </h2>
+      <div className="flex items-center gap-4 text-sm text-gray-400">
+        <span>
+          {clipCount} clip{clipCount === 1 ? '' : 's'} analyzed
+          {pendingCount > 0 && ` · ${pendingCount} waiting`}
+          {droppedCount > 0 && ` · ${droppedCount} skipped to keep up`}
+          {expiredCount > 0 && ` · showing the last ${clipCount - expiredCount}`}
+        </span>
+        {!isSampling && detections.length > 0 && (
+          <button onClick={onClear} className="text-gray-400 hover:text-gray-100">Clear</button>
+        )}
+      </div>
+    </div>
+    {error && (
+      <p className="text-sm text-red-300" title={error.hint}>{error.message}</p>
+    )}
+    {detections.length === 0 ? (
+      <p className="text-sm text-gray-500">{isSampling ? 'Waiting for the first clip...' : 'No detections.'}</p>
+    ) : (
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {detections.map(detection => (
+          <ObjectTag
+            key={detection.id}
+            name={detection.name}
+            imageUrl={detection.imageUrl}
+            thumbnailUrl={detection.thumbnailUrl}
+            price={detection.price}
+            timestamp={detection.timestamp}
+            firstSeen={detection.firstSeen}
+            lastSeen={detection.lastSeen}
+            confidence={detection.confidence}
+            onClick={() => onOpen(detection)}
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default LiveResults;
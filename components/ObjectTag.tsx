@@ -1,38 +1,61 @@
 import React from 'react';
 import { PlayIcon } from './Icons';
+import { DetectionOrigin } from '../types';
+import { formatTime } from '../utils/time';
+import { LOW_CONFIDENCE } from '../utils/resultView';
 
 interface ObjectTagProps {
   name: string;
   imageUrl: string | null;
+  /** The box cropped out of the frame; preferred over `imageUrl` so small objects stay visible. */
+  thumbnailUrl?: string | null;
   price: string;
   timestamp: number;
-  onClick: (timestamp: number) => void;
+  firstSeen: number;
+  lastSeen: number;
+  confidence?: number;
+  /** Timestamps of every sighting when this card stands for several detections of one object. */
+  sightings?: number[];
+  origin?: DetectionOrigin;
+  edited?: boolean;
+  onClick: (start: number, end: number) => void;
+  onEdit?: () => void;
 }
 
 const ImageLoader: React.FC = () => (
     <div className="w-full aspect-square bg-gray-700 rounded-t-lg animate-pulse"></div>
 );
 
-const ObjectTag: React.FC<ObjectTagProps> = ({ name, imageUrl, price, timestamp, onClick }) => {
+const ObjectTag: React.FC<ObjectTagProps> = ({ name, imageUrl, thumbnailUrl, price, timestamp, firstSeen, lastSeen, confidence, sightings, origin, edited, onClick, onEdit }) => {
+  const hasRange = lastSeen > firstSeen;
+  const lowConfidence = confidence !== undefined && confidence < LOW_CONFIDENCE;
+  const snapshotUrl = thumbnailUrl ?? imageUrl;
+
   const handleInteraction = () => {
-    onClick(timestamp);
+    if (hasRange) {
+      onClick(firstSeen, lastSeen);
+    } else {
+      onClick(timestamp, timestamp);
+    }
   };
 
   return (
     <div 
-      className="group bg-gray-800 border border-gray-700 rounded-lg shadow-lg overflow-hidden transition-all duration-300 transform hover:-translate-y-1 hover:shadow-indigo-500/20 w-full max-w-[400px] cursor-pointer"
+      className={`group bg-gray-800 border rounded-lg ${lowConfidence ? 'border-dashed border-amber-500/70' : 'border-gray-700'} shadow-lg overflow-hidden transition-all duration-300 transform hover:-translate-y-1 hover:shadow-indigo-500/20 w-full max-w-[400px] cursor-pointer`}
       onClick={handleInteraction}
       onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleInteraction(); }}
       role="button"
       tabIndex={0}
-      aria-label={`View ${name} at timestamp ${timestamp.toFixed(2)}s`}
+      aria-label={hasRange
+        ? `Play ${name} from ${firstSeen.toFixed(2)}s to ${lastSeen.toFixed(2)}s`
+        : `View ${name} at timestamp ${timestamp.toFixed(2)}s`}
     >
       <div className="w-full h-auto aspect-square relative">
-        {imageUrl ? (
+        {snapshotUrl ? (
           <img 
-            src={imageUrl} 
+            src={snapshotUrl} 
             alt={`A snapshot of: ${name}`} 
-            className="w-full h-full object-cover" 
+            className={`w-full h-full ${thumbnailUrl ? 'object-contain bg-gray-900' : 'object-cover'} ${lowConfidence ? 'opacity-60' : ''}`}
             width="400"
             height="400"
           />
@@ -42,11 +65,53 @@ const ObjectTag: React.FC<ObjectTagProps> = ({ name, imageUrl, price, timestamp,
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
           <PlayIcon className="w-16 h-16 text-white/80" />
         </div>
+        {(origin === 'manual' || edited) && (
+          <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-600/90 text-white">
+            {origin === 'manual' ? 'Added manually' : 'Edited'}
+          </span>
+        )}
+        {confidence !== undefined && (
+          <span
+            className={`absolute bottom-2 left-2 px-2 py-0.5 text-xs font-medium rounded-full ${lowConfidence ? 'bg-amber-600/90 text-white' : 'bg-gray-900/80 text-gray-200'}`}
+            title="Model confidence"
+          >
+            {lowConfidence ? 'Low confidence · ' : ''}{Math.round(confidence * 100)}%
+          </span>
+        )}
+        {onEdit && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onEdit(); }}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="absolute top-2 right-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-900/80 text-gray-200 hover:bg-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            aria-label={`Edit ${name}`}
+          >
+            Edit
+          </button>
+        )}
       </div>
       <div className="p-4 bg-gray-800/50">
         <h3 className="text-lg font-semibold text-center text-gray-100 truncate" title={name}>
           {name.charAt(0).toUpperCase() + name.slice(1)}
         </h3>
+        <p className="text-center text-sm text-gray-400 mt-1">
+          {hasRange ? `${formatTime(firstSeen)} – ${formatTime(lastSeen)}` : formatTime(timestamp)}
+        </p>
+        {sightings && sightings.length > 1 && (
+          <div className="flex flex-wrap justify-center gap-1 mt-2" aria-label={`${sightings.length} sightings`}>
+            <span className="text-xs text-gray-500">Seen {sightings.length}×:</span>
+            {sightings.map(time => (
+              <button
+                key={time}
+                onClick={(e) => { e.stopPropagation(); onClick(time, time); }}
+                onKeyDown={(e) => e.stopPropagation()}
+                className="px-1.5 text-xs text-indigo-300 bg-gray-900/60 rounded hover:bg-gray-700"
+                aria-label={`View sighting at ${time.toFixed(2)}s`}
+              >
+                {formatTime(time)}
+              </button>
+            ))}
+          </div>
+        )}
         {price && (
             <p className="text-center text-yellow-400 font-bold text-xl mt-1">{price}</p>
         )}
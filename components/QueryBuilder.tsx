@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { QueryAttributes, QueryTerm, StructuredQuery } from '../types';
+import { addUnique, createQueryTerm, parseQuery } from '../utils/queryTerms';
+import { termColor } from '../utils/colors';
+import { deleteQueryPreset, loadQueryPresets, QueryPreset, saveQueryPreset } from '../services/queryPresets';
+import { XIcon } from './Icons';
+
+interface QueryBuilderProps {
+  query: StructuredQuery;
+  onChange: (query: StructuredQuery) => void;
+  disabled?: boolean;
+}
+
+const ATTRIBUTE_FIELDS: { key: keyof QueryAttributes; label: string; placeholder: string }[] = [
+  { key: 'color', label: 'Color', placeholder: 'e.g. red' },
+  { key: 'brand', label: 'Brand', placeholder: 'e.g. Toyota' },
+  { key: 'state', label: 'State', placeholder: 'e.g. parked' },
+];
+
+const inputClasses = 'w-full bg-gray-900/50 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors';
+
+const summarizeTerm = ({ attributes, synonyms }: QueryTerm): string => {
+  return [attributes.color, attributes.brand, attributes.state, ...synonyms.map(s => `≈${s}`)].filter(Boolean).join(', ');
+};
+
+/**
+ * A text box that turns what's typed into chips on Enter or comma. Pasting "a, b, c" adds three chips.
+ */
+const ChipInput: React.FC<{ id: string; placeholder: string; disabled?: boolean; onAdd: (values: string[]) => void }> = ({
+  id, placeholder, disabled, onAdd,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = (text: string) => {
+    const values = parseQuery(text);
+    if (values.length > 0) onAdd(values);
+    setDraft('');
+  };
+
+  return (
+    <input
+      id={id}
+      type="text"
+      value={draft}
+      disabled={disabled}
+      placeholder={placeholder}
+      onChange={(e) => {
+        const value = e.target.value;
+        if (value.includes(',')) {
+          commit(value);
+        } else {
+          setDraft(value);
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit(draft);
+        }
+      }}
+      onBlur={() => commit(draft)}
+      className="flex-1 min-w-[8rem] bg-transparent px-2 py-1 text-sm text-gray-100 placeholder-gray-500 focus:outline-none"
+    />
+  );
+};
+
+const TermDetails: React.FC<{ term: QueryTerm; disabled?: boolean; onChange: (term: QueryTerm) => void }> = ({ term, disabled, onChange }) => {
+  // Kept as text while editing so "a, " isn't normalized away mid-typing.
+  const [synonymsDraft, setSynonymsDraft] = useState(term.synonyms.join(', '));
+
+  const setAttribute = (key: keyof QueryAttributes, value: string) => {
+    onChange({ ...term, attributes: { ...term.attributes, [key]: value.trim() ? value : undefined } });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+      {ATTRIBUTE_FIELDS.map(({ key, label, placeholder }) => (
+        <div key={key}>
+          <label htmlFor={`term-${key}`} className="block text-xs text-gray-400 mb-1">{label}</label>
+          <input
+            id={`term-${key}`}
+            value={term.attributes[key] ?? ''}
+            onChange={(e) => setAttribute(key, e.target.value)}
+            disabled={disabled}
+            placeholder={placeholder}
+            className={inputClasses}
+          />
+        </div>
+      ))}
+      <div>
+        <label htmlFor="term-synonyms" className="block text-xs text-gray-400 mb-1">Synonyms (comma-separated)</label>
+        <input
+          id="term-synonyms"
+          value={synonymsDraft}
+          onChange={(e) => setSynonymsDraft(e.target.value)}
+          onBlur={() => onChange({ ...term, synonyms: parseQuery(synonymsDraft) })}
+          disabled={disabled}
+          placeholder="e.g. automobile, sedan"
+          className={inputClasses}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Edits a structured query: included items as chips with optional attributes and synonyms,
+ * excluded items, and saved presets.
+ */
+const QueryBuilder: React.FC<QueryBuilderProps> = ({ query, onChange, disabled }) => {
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
+  const [presets, setPresets] = useState<QueryPreset[]>(loadQueryPresets);
+  const [presetName, setPresetName] = useState('');
+  const selectedTerm = query.include.find(term => term.label === selectedLabel) ?? null;
+
+  const addIncluded = (labels: string[]) => {
+    onChange({ ...query, include: addUnique(query.include, labels.map(createQueryTerm), term => term.label) });
+  };
+
+  const removeIncluded = (label: string) => {
+    if (label === selectedLabel) setSelectedLabel(null);
+    onChange({ ...query, include: query.include.filter(term => term.label !== label) });
+  };
+
+  const updateIncluded = (updated: QueryTerm) => {
+    onChange({ ...query, include: query.include.map(term => (term.label === updated.label ? updated : term)) });
+  };
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setPresetName(name);
+    setSelectedLabel(null);
+    onChange(preset.query);
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt('Save this query as:', presetName)?.trim();
+    if (!name) return;
+    setPresets(saveQueryPreset(name, query));
+    setPresetName(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!presetName || !window.confirm(`Delete the preset "${presetName}"?`)) return;
+    setPresets(deleteQueryPreset(presetName));
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="query-include" className="block text-sm font-medium text-gray-300 mb-2">Objects to Identify:</label>
+        <div className="flex flex-wrap items-center gap-2 bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1.5 focus-within:ring-2 focus-within:ring-indigo-500">
+          {query.include.map((term, index) => {
+            const summary = summarizeTerm(term);
+            const selected = term.label === selectedLabel;
+            return (
+              <span
+                key={term.label}
+                className={`inline-flex items-center gap-1.5 pl-2 pr-1 py-0.5 text-sm rounded-full border ${selected ? 'border-indigo-400 bg-indigo-900/40' : 'border-gray-600 bg-gray-800'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: termColor(index) }} />
+                <button
+                  onClick={() => setSelectedLabel(selected ? null : term.label)}
+                  disabled={disabled}
+                  className="text-gray-100"
+                  aria-expanded={selected}
+                  title="Edit attributes and synonyms"
+                >
+                  {term.label}
+                  {summary && <span className="ml-1 text-xs text-gray-400">({summary})</span>}
+                </button>
+                <button onClick={() => removeIncluded(term.label)} disabled={disabled} className="text-gray-400 hover:text-red-300" aria-label={`Remove ${term.label}`}>
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            );
+          })}
+          <ChipInput
+            id="query-include"
+            placeholder={query.include.length === 0 ? 'e.g., chair, sofa, firearm' : 'Add another...'}
+            disabled={disabled}
+            onAdd={addIncluded}
+          />
+        </div>
+        {selectedTerm && (
+          <div className="mt-2">
+            <TermDetails key={selectedTerm.label} term={selectedTerm} disabled={disabled} onChange={updateIncluded} />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="query-exclude" className="block text-sm font-medium text-gray-300 mb-2">Exclude:</label>
+        <div className="flex flex-wrap items-center gap-2 bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1.5 focus-within:ring-2 focus-within:ring-indigo-500">
+          {query.exclude.map(item => (
+            <span key={item} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 text-sm text-red-200 rounded-full border border-red-800 bg-red-900/30">
+              {item}
+              <button
+                onClick={() => onChange({ ...query, exclude: query.exclude.filter(i => i !== item) })}
+                disabled={disabled}
+                className="text-red-300 hover:text-red-100"
+                aria-label={`Stop excluding ${item}`}
+              >
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+          <ChipInput
+            id="query-exclude"
+            placeholder="e.g., trucks"
+            disabled={disabled}
+            onAdd={(items) => onChange({ ...query, exclude: addUnique<string>(query.exclude, items, item => item) })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label htmlFor="query-preset" className="text-gray-400">Preset:</label>
+        <select
+          id="query-preset"
+          value={presets.some(p => p.name === presetName) ? presetName : ''}
+          onChange={(e) => handleLoadPreset(e.target.value)}
+          disabled={disabled || presets.length === 0}
+          className="bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1 text-gray-100"
+        >
+          <option value="">{presets.length === 0 ? 'No saved presets' : 'Load a preset...'}</option>
+          {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+        </select>
+        <button onClick={handleSavePreset} disabled={disabled || query.include.length === 0} className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-500">
+          Save as preset
+        </button>
+        {presets.some(p => p.name === presetName) && (
+          <button onClick={handleDeletePreset} disabled={disabled} className="text-red-400 hover:text-red-300">
+            Delete preset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueryBuilder;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ResultSort, ResultView } from '../utils/resultView';
+
+interface ResultsToolbarProps {
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  sort: ResultSort;
+  onSortChange: (sort: ResultSort) => void;
+  groupByTerm: boolean;
+  onGroupByTermChange: (group: boolean) => void;
+  view: ResultView;
+  onViewChange: (view: ResultView) => void;
+  /** Detections above the threshold. */
+  shownCount: number;
+  totalCount: number;
+  /** Distinct objects among the shown detections, when viewing unique instances. */
+  instanceCount?: number;
+}
+
+const VIEW_OPTIONS: { value: ResultView; label: string }[] = [
+  { value: 'sightings', label: 'Every sighting' },
+  { value: 'instances', label: 'Unique instances' },
+];
+
+const SORT_OPTIONS: { value: ResultSort; label: string }[] = [
+  { value: 'time', label: 'Time' },
+  { value: 'confidence', label: 'Confidence' },
+  { value: 'name', label: 'Name' },
+  { value: 'price', label: 'Price' },
+];
+
+const ResultsToolbar: React.FC<ResultsToolbarProps> = ({
+  threshold, onThresholdChange, sort, onSortChange, groupByTerm, onGroupByTermChange, view, onViewChange, shownCount, totalCount, instanceCount,
+}) => (
+  <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3 mb-6 text-sm text-gray-300">
+    <div className="flex items-center gap-2">
+      <label htmlFor="confidence-threshold" className="text-gray-400">Min confidence:</label>
+      <input
+        id="confidence-threshold"
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={threshold}
+        onChange={(e) => onThresholdChange(Number(e.target.value))}
+        className="w-32"
+      />
+      <span className="w-10 tabular-nums">{Math.round(threshold * 100)}%</span>
+    </div>
+    <div className="flex items-center gap-2">
+      <label htmlFor="result-sort" className="text-gray-400">Sort by:</label>
+      <select
+        id="result-sort"
+        value={sort}
+        onChange={(e) => onSortChange(e.target.value as ResultSort)}
+        className="bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1 text-gray-100"
+      >
+        {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    </div>
+    <div className="inline-flex rounded-lg border border-gray-600 overflow-hidden" role="group" aria-label="Result view">
+      {VIEW_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onViewChange(option.value)}
+          aria-pressed={view === option.value}
+          className={`px-3 py-1 transition-colors ${view === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input type="checkbox" checked={groupByTerm} onChange={(e) => onGroupByTermChange(e.target.checked)} />
+      Group by query term
+    </label>
+    {view === 'instances' && instanceCount !== undefined ? (
+      <span className="text-gray-500">{instanceCount} unique from {shownCount} sightings</span>
+    ) : shownCount < totalCount && (
+      <span className="text-gray-500">Showing {shownCount} of {totalCount}</span>
+    )}
+  </div>
+);
+
+export default ResultsToolbar;
@@ -0,0 +1,269 @@
+import React, { useRef, useState } from 'react';
+import { MediaResolutionLevel, ModelSettings, PromptTemplate, ResultCacheSettings } from '../types';
+import { AVAILABLE_MODELS } from '../services/usage';
+import { BUILT_IN_TEMPLATES, deleteCustomTemplate, findTemplate, saveCustomTemplate, TEMPLATE_VARIABLES } from '../services/promptTemplates';
+import { exportSettings, importSettings, MAX_TEMPERATURE, MIN_TEMPERATURE } from '../services/modelSettings';
+import { clearResultCache, loadResultCacheSettings, saveResultCacheSettings } from '../services/resultCache';
+import { downloadBlob } from '../utils/download';
+import { XIcon } from './Icons';
+
+interface SettingsPanelProps {
+  settings: ModelSettings;
+  onSettingsChange: (settings: ModelSettings) => void;
+  customTemplates: PromptTemplate[];
+  onCustomTemplatesChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+const RESOLUTION_OPTIONS: { value: MediaResolutionLevel; label: string }[] = [
+  { value: 'default', label: 'Default (258 tokens per second of video)' },
+  { value: 'low', label: 'Low (66 tokens per second, less detail)' },
+];
+
+const inputClasses = 'w-full bg-gray-900/50 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors';
+
+/**
+ * Edits one template. Built-in templates are read-only and can be copied into a new custom template.
+ */
+const TemplateEditor: React.FC<{
+  template: PromptTemplate;
+  onSave: (template: PromptTemplate) => void;
+  onDuplicate: (template: PromptTemplate) => void;
+  onDelete: (template: PromptTemplate) => void;
+}> = ({ template, onSave, onDuplicate, onDelete }) => {
+  const [name, setName] = useState(template.name);
+  const [text, setText] = useState(template.text);
+  const dirty = name !== template.name || text !== template.text;
+
+  return (
+    <div className="space-y-3">
+      {!template.builtIn && (
+        <div>
+          <label htmlFor="template-name" className="block text-xs text-gray-400 mb-1">Template name</label>
+          <input id="template-name" value={name} onChange={(e) => setName(e.target.value)} className={inputClasses} />
+        </div>
+      )}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        readOnly={template.builtIn}
+        rows={10}
+        className={`${inputClasses} font-mono text-xs ${template.builtIn ? 'text-gray-400' : ''}`}
+        aria-label="Template text"
+      />
+      <ul className="text-xs text-gray-500 space-y-1">
+        {TEMPLATE_VARIABLES.map(variable => (
+          <li key={variable.name}><code className="text-indigo-300">{variable.name}</code> {variable.description}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-3 text-sm">
+        {!template.builtIn && (
+          <button
+            onClick={() => onSave({ ...template, name: name.trim() || template.name, text })}
+            disabled={!dirty || !text.trim()}
+            className="text-indigo-400 hover:text-indigo-300 disabled:text-gray-500"
+          >
+            Save template
+          </button>
+        )}
+        <button onClick={() => onDuplicate({ ...template, text })} className="text-indigo-400 hover:text-indigo-300">
+          {template.builtIn ? 'Copy to edit' : 'Duplicate'}
+        </button>
+        {!template.builtIn && (
+          <button onClick={() => onDelete(template)} className="text-red-400 hover:text-red-300">Delete template</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Turns the local result cache on or off, sets its expiry and size cap, and empties it.
+ */
+const ResultCacheSection: React.FC = () => {
+  const [settings, setSettings] = useState<ResultCacheSettings>(loadResultCacheSettings);
+  const [cleared, setCleared] = useState<boolean>(false);
+
+  const update = (changes: Partial<ResultCacheSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveResultCacheSettings(updated);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearResultCache();
+      setCleared(true);
+    } catch (e) {
+      console.error('Failed to clear the result cache', e);
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-4 border-t border-gray-700">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Reuse results of identical runs
+        <span className="text-xs font-normal text-gray-500">(same video, objects, model settings and prompt; not billed again)</span>
+      </label>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+        <label htmlFor="cache-ttl">Keep results for</label>
+        <input
+          id="cache-ttl"
+          type="number"
+          min={1}
+          value={settings.ttlDays}
+          onChange={(e) => update({ ttlDays: Math.max(1, Number(e.target.value) || 1) })}
+          disabled={!settings.enabled}
+          className="w-16 bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100"
+        />
+        <span>days, up to</span>
+        <input
+          id="cache-size"
+          type="number"
+          min={1}
+          value={settings.maxMegabytes}
+          onChange={(e) => update({ maxMegabytes: Math.max(1, Number(e.target.value) || 1) })}
+          disabled={!settings.enabled}
+          aria-label="Cache size limit in megabytes"
+          className="w-20 bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100"
+        />
+        <span>MB</span>
+        <button onClick={handleClear} className="ml-auto text-indigo-400 hover:text-indigo-300">
+          {cleared ? 'Cache cleared' : 'Clear cache'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Picks the model, its generation settings and the prompt template, and exports or imports them.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange, customTemplates, onCustomTemplatesChange, onClose }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const template = findTemplate(settings.templateId, customTemplates);
+
+  const update = (changes: Partial<ModelSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const handleSaveTemplate = (updated: PromptTemplate) => {
+    onCustomTemplatesChange(saveCustomTemplate(updated));
+  };
+
+  const handleDuplicateTemplate = (source: PromptTemplate) => {
+    const copy = { id: crypto.randomUUID(), name: `${source.name} (copy)`, text: source.text };
+    onCustomTemplatesChange(saveCustomTemplate(copy));
+    update({ templateId: copy.id });
+  };
+
+  const handleDeleteTemplate = (target: PromptTemplate) => {
+    if (!window.confirm(`Delete the template "${target.name}"?`)) return;
+    onCustomTemplatesChange(deleteCustomTemplate(target.id));
+    update({ templateId: BUILT_IN_TEMPLATES[0].id });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportSettings(settings, customTemplates)], { type: 'application/json' }), 'model-settings.json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = importSettings(await file.text());
+      onCustomTemplatesChange(imported.templates);
+      onSettingsChange(imported.settings);
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Could not import the settings.');
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Model settings">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Model Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-100" aria-label="Close settings">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="settings-model" className="block text-sm font-medium text-gray-300 mb-1">Model</label>
+            <select id="settings-model" value={settings.model} onChange={(e) => update({ model: e.target.value })} className={inputClasses}>
+              {AVAILABLE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="settings-temperature" className="block text-sm font-medium text-gray-300 mb-1">
+              Temperature <span className="text-gray-400 tabular-nums">{settings.temperature.toFixed(1)}</span>
+            </label>
+            <input
+              id="settings-temperature"
+              type="range"
+              min={MIN_TEMPERATURE}
+              max={MAX_TEMPERATURE}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="w-full mt-2"
+            />
+          </div>
+          <div>
+            <label htmlFor="settings-resolution" className="block text-sm font-medium text-gray-300 mb-1">Media resolution</label>
+            <select
+              id="settings-resolution"
+              value={settings.mediaResolution}
+              onChange={(e) => update({ mediaResolution: e.target.value as MediaResolutionLevel })}
+              className={inputClasses}
+            >
+              {RESOLUTION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="settings-template" className="block text-sm font-medium text-gray-300 mb-1">Prompt template</label>
+          <select id="settings-template" value={template.id} onChange={(e) => update({ templateId: e.target.value })} className={`${inputClasses} mb-3`}>
+            <optgroup label="Built-in">
+              {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+            {customTemplates.length > 0 && (
+              <optgroup label="Custom">
+                {customTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          <TemplateEditor
+            key={template.id}
+            template={template}
+            onSave={handleSaveTemplate}
+            onDuplicate={handleDuplicateTemplate}
+            onDelete={handleDeleteTemplate}
+          />
+        </div>
+
+        <ResultCacheSection />
+
+        <div className="flex flex-wrap items-center gap-4 pt-4 border-t border-gray-700 text-sm">
+          <button onClick={handleExport} className="text-indigo-400 hover:text-indigo-300">Export settings and templates</button>
+          <button onClick={() => importInputRef.current?.click()} className="text-indigo-400 hover:text-indigo-300">Import...</button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          {importError && <span className="text-red-300">{importError}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
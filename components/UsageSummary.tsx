@@ -0,0 +1,45 @@
+import React from 'react';
+import { TokenUsage } from '../types';
+import { formatCost, formatTokens } from '../services/usage';
+
+interface UsageSummaryProps {
+  /** Pre-flight estimate for the next run, if the provider is billed. */
+  estimate?: TokenUsage;
+  /** Usage of the results currently shown. */
+  run: TokenUsage | null;
+  session: TokenUsage;
+}
+
+const UsageSummary: React.FC<UsageSummaryProps> = ({ estimate, run, session }) => {
+  const hasSessionUsage = session.promptTokens + session.outputTokens > 0;
+  if (!estimate && !run && !hasSessionUsage) {
+    return null;
+  }
+
+  return (
+    <dl className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-xs text-gray-400">
+      {estimate && (
+        <div className="flex gap-1" title="Based on the video's duration; output tokens are a rough allowance.">
+          <dt>Estimated next run:</dt>
+          <dd className="text-gray-300">~{formatTokens(estimate.promptTokens + estimate.outputTokens)} tokens · ~{formatCost(estimate.costUsd)}</dd>
+        </div>
+      )}
+      {run && (
+        <div className="flex gap-1">
+          <dt>This analysis:</dt>
+          <dd className="text-gray-300">
+            {formatTokens(run.promptTokens)} prompt + {formatTokens(run.outputTokens)} output tokens · {formatCost(run.costUsd)}
+          </dd>
+        </div>
+      )}
+      {hasSessionUsage && (
+        <div className="flex gap-1">
+          <dt>Session total:</dt>
+          <dd className="text-gray-300">{formatTokens(session.promptTokens + session.outputTokens)} tokens · {formatCost(session.costUsd)}</dd>
+        </div>
+      )}
+    </dl>
+  );
+};
+
+export default UsageSummary;
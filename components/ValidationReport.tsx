@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { ValidationIssue } from '../types';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+}
+
+const describeIssue = (issue: ValidationIssue): string => {
+  const where = [
+    issue.chunk !== undefined ? `chunk ${issue.chunk + 1}` : null,
+    issue.index !== null ? `entry ${issue.index + 1}` : null,
+  ].filter(Boolean).join(', ');
+  const label = issue.name ? `"${issue.name}"` : null;
+  const prefix = [where, label].filter(Boolean).join(' ');
+  return prefix ? `${prefix}: ${issue.reason}` : issue.reason;
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ issues }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (issues.length === 0) return null;
+
+  const rejected = issues.filter(issue => issue.action === 'rejected');
+  const corrected = issues.filter(issue => issue.action === 'corrected');
+  const summary = [
+    rejected.length > 0 ? `${rejected.length} ${rejected.length === 1 ? 'entry' : 'entries'} rejected` : null,
+    corrected.length > 0 ? `${corrected.length} correction${corrected.length === 1 ? '' : 's'} applied` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`p-4 rounded-lg border text-sm ${rejected.length > 0 ? 'bg-orange-900/30 border-orange-700 text-orange-200' : 'bg-gray-900/40 border-gray-700 text-gray-300'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <span>The model response needed attention: {summary}.</span>
+        <button onClick={() => setExpanded(!expanded)} className="shrink-0 underline hover:no-underline" aria-expanded={expanded}>
+          {expanded ? 'Hide details' : "Here's why"}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-3 space-y-1 list-disc list-inside">
+          {rejected.map((issue, i) => <li key={`r-${i}`}><span className="font-semibold">Rejected</span> {describeIssue(issue)}</li>)}
+          {corrected.map((issue, i) => <li key={`c-${i}`}><span className="font-semibold">Corrected</span> {describeIssue(issue)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
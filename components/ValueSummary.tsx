@@ -0,0 +1,67 @@
+import React from 'react';
+import { VideoObject } from '../types';
+import { CurrencySettings, formatPriceRange, totalValue } from '../services/pricing';
+
+interface ValueSummaryProps {
+  objects: VideoObject[];
+  settings: CurrencySettings;
+  onSettingsChange: (settings: CurrencySettings) => void;
+}
+
+const ValueSummary: React.FC<ValueSummaryProps> = ({ objects, settings, onSettingsChange }) => {
+  const { total, pricedCount, unpricedCount } = totalValue(objects, settings);
+  const currencies = Object.keys(settings.rates).sort();
+
+  const setRate = (currency: string, value: string) => {
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate <= 0) return;
+    onSettingsChange({ ...settings, rates: { ...settings.rates, [currency]: rate } });
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-900/40 border border-gray-700 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <span className="text-gray-400">Estimated total value: </span>
+          <span className="text-lg font-semibold text-yellow-400">{pricedCount > 0 ? formatPriceRange(total) : '—'}</span>
+          <span className="block text-xs text-gray-500">
+            {pricedCount} priced detection{pricedCount === 1 ? '' : 's'}
+            {unpricedCount > 0 && `, ${unpricedCount} without a usable price`}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="target-currency" className="text-gray-400">Currency:</label>
+          <select
+            id="target-currency"
+            value={settings.targetCurrency}
+            onChange={(e) => onSettingsChange({ ...settings, targetCurrency: e.target.value })}
+            className="bg-gray-900/50 border border-gray-600 rounded-lg px-2 py-1 text-gray-100"
+          >
+            {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </div>
+      </div>
+      <details className="mt-3">
+        <summary className="cursor-pointer text-xs text-gray-400 hover:text-gray-200">Exchange rates (per 1 USD)</summary>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
+          {currencies.map(code => (
+            <label key={code} className="flex items-center gap-2 text-xs text-gray-300">
+              <span className="w-8">{code}</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                defaultValue={settings.rates[code]}
+                disabled={code === 'USD'}
+                onBlur={(e) => setRate(code, e.target.value)}
+                className="w-full bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ValueSummary;
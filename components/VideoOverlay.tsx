@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { TrackPoint } from '../types';
+import { boxAtTime } from '../services/tracks';
+
+export interface OverlayDetection {
+  name: string;
+  queryTerm: string;
+  firstSeen: number;
+  lastSeen: number;
+  track: TrackPoint[];
+}
+
+interface VideoOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  detections: OverlayDetection[];
+  hiddenTerms: Set<string>;
+  colorForTerm: (term: string) => string;
+}
+
+// Detections seen at a single instant stay on screen for this long either side of it.
+const VISIBILITY_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Computes the rectangle the video frame actually occupies inside the element,
+ * accounting for the letterboxing applied by `object-fit: contain`.
+ */
+const getContentRect = (video: HTMLVideoElement) => {
+  const elementWidth = video.clientWidth;
+  const elementHeight = video.clientHeight;
+  if (!video.videoWidth || !video.videoHeight) {
+    return { x: 0, y: 0, width: elementWidth, height: elementHeight };
+  }
+  const scale = Math.min(elementWidth / video.videoWidth, elementHeight / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return { x: (elementWidth - width) / 2, y: (elementHeight - height) / 2, width, height };
+};
+
+const VideoOverlay: React.FC<VideoOverlayProps> = ({ videoRef, detections, hiddenTerms, colorForTerm }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = video.clientWidth;
+    const height = video.clientHeight;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+    }
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const time = video.currentTime;
+    const content = getContentRect(video);
+    const fontSize = Math.max(11, Math.round(content.height / 30));
+    ctx.font = `600 ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+    ctx.lineWidth = 2;
+
+    detections.forEach(detection => {
+      if (hiddenTerms.has(detection.queryTerm)) return;
+      if (time < detection.firstSeen - VISIBILITY_TOLERANCE_SECONDS || time > detection.lastSeen + VISIBILITY_TOLERANCE_SECONDS) return;
+
+      const box = boxAtTime(detection.track, time);
+      const x1 = content.x + Math.max(0, box.x_min) * content.width;
+      const y1 = content.y + Math.max(0, box.y_min) * content.height;
+      const x2 = content.x + Math.min(1, box.x_max) * content.width;
+      const y2 = content.y + Math.min(1, box.y_max) * content.height;
+      if (x2 <= x1 || y2 <= y1) return;
+
+      const color = colorForTerm(detection.queryTerm);
+      ctx.strokeStyle = color;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+      ctx.shadowBlur = 4;
+      ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+      ctx.shadowBlur = 0;
+
+      const labelWidth = ctx.measureText(detection.name).width + 8;
+      const labelHeight = fontSize + 6;
+      const labelY = y1 - labelHeight >= content.y ? y1 - labelHeight : y1;
+      ctx.fillStyle = color;
+      ctx.fillRect(x1, labelY, labelWidth, labelHeight);
+      ctx.fillStyle = '#111827';
+      ctx.fillText(detection.name, x1 + 4, labelY + fontSize + 1);
+    });
+  }, [videoRef, detections, hiddenTerms, colorForTerm]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let frameId: number | null = null;
+    const loop = () => {
+      draw();
+      frameId = video.paused || video.ended ? null : requestAnimationFrame(loop);
+    };
+    const startLoop = () => {
+      if (frameId === null) frameId = requestAnimationFrame(loop);
+    };
+
+    const resizeObserver = new ResizeObserver(draw);
+    resizeObserver.observe(video);
+    video.addEventListener('play', startLoop);
+    video.addEventListener('seeked', draw);
+    video.addEventListener('loadedmetadata', draw);
+
+    draw();
+    if (!video.paused) startLoop();
+
+    return () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      resizeObserver.disconnect();
+      video.removeEventListener('play', startLoop);
+      video.removeEventListener('seeked', draw);
+      video.removeEventListener('loadedmetadata', draw);
+    };
+  }, [videoRef, draw]);
+
+  return <canvas ref={canvasRef} className="absolute top-0 left-0 pointer-events-none" aria-hidden="true" />;
+};
+
+export default VideoOverlay;
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IdentifiedObject } from '../types';
+import {
+  DEFAULT_BOX_PADDING, DEFAULT_REDACTION_EFFECT, DEFAULT_TIME_PADDING, RedactionEffect, renderVideo, RenderStyle,
+} from '../services/videoRender';
+import { isAbortError } from '../utils/abort';
+import { downloadBlob } from '../utils/download';
+
+interface VideoRenderPanelProps {
+  videoFile: File;
+  objects: IdentifiedObject[];
+  terms: string[];
+  colorForTerm: (term: string) => string;
+}
+
+const STYLE_OPTIONS: { value: RenderStyle; label: string }[] = [
+  { value: 'redact', label: 'Redacted' },
+  { value: 'annotate', label: 'Annotated' },
+];
+
+const EFFECT_OPTIONS: { value: RedactionEffect; label: string }[] = [
+  { value: 'blur', label: 'Blur' },
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'fill', label: 'Solid fill' },
+  { value: 'none', label: 'Leave visible' },
+];
+
+const inputClasses = 'w-16 bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100';
+
+/**
+ * Renders a copy of the video with the detections blurred, pixelated or filled per query term, or with
+ * labeled boxes burned in, and downloads it.
+ */
+const VideoRenderPanel: React.FC<VideoRenderPanelProps> = ({ videoFile, objects, terms, colorForTerm }) => {
+  const [style, setStyle] = useState<RenderStyle>('redact');
+  const [effects, setEffects] = useState<Record<string, RedactionEffect>>({});
+  const [paddingPercent, setPaddingPercent] = useState(DEFAULT_BOX_PADDING * 100);
+  const [timePadding, setTimePadding] = useState(DEFAULT_TIME_PADDING);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A render in progress belongs to the video it started on.
+  useEffect(() => () => abortRef.current?.abort(), [videoFile]);
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const rendered = await renderVideo(videoFile, objects, {
+        style,
+        effects,
+        padding: paddingPercent / 100,
+        timePadding,
+        colorForTerm,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(rendered, rendered.name);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Rendering failed.');
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isRendering = progress !== null;
+
+  return (
+    <div className="flex flex-col items-center gap-3 text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span className="text-gray-400">Render video:</span>
+        <div className="inline-flex rounded-lg border border-gray-600 overflow-hidden" role="group" aria-label="Render style">
+          {STYLE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setStyle(option.value)}
+              disabled={isRendering}
+              aria-pressed={style === option.value}
+              className={`px-3 py-1 transition-colors disabled:cursor-not-allowed ${style === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {style === 'redact' && (
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex flex-wrap justify-center gap-3">
+            {terms.map(term => (
+              <label key={term} className="inline-flex items-center gap-2 text-gray-300">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorForTerm(term) }} />
+                {term}
+                <select
+                  value={effects[term] ?? DEFAULT_REDACTION_EFFECT}
+                  onChange={(e) => setEffects(prev => ({ ...prev, [term]: e.target.value as RedactionEffect }))}
+                  disabled={isRendering}
+                  className="bg-gray-900/50 border border-gray-600 rounded px-2 py-1 text-gray-100"
+                >
+                  {EFFECT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center justify-center gap-2 text-gray-400">
+            <span>Pad boxes by</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={paddingPercent}
+              onChange={(e) => setPaddingPercent(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+              disabled={isRendering}
+              aria-label="Box padding in percent"
+              className={inputClasses}
+            />
+            <span>% and cover</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={timePadding}
+              onChange={(e) => setTimePadding(Math.max(0, Number(e.target.value) || 0))}
+              disabled={isRendering}
+              aria-label="Time padding in seconds"
+              className={inputClasses}
+            />
+            <span>s before and after each sighting</span>
+          </div>
+        </div>
+      )}
+
+      {isRendering ? (
+        <div className="flex items-center gap-3 w-full max-w-md">
+          <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="text-gray-400 tabular-nums">{Math.round(progress * 100)}%</span>
+          <button onClick={() => abortRef.current?.abort()} className="text-indigo-400 hover:text-indigo-300">Cancel</button>
+        </div>
+      ) : (
+        <button
+          onClick={handleRender}
+          className="px-4 py-2 font-medium text-gray-100 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          {style === 'redact' ? 'Render redacted video' : 'Render annotated video'}
+        </button>
+      )}
+      <p className="text-xs text-gray-500">The video plays through once in the background to render, without audio.</p>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default VideoRenderPanel;
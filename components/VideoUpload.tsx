@@ -4,10 +4,12 @@ import { UploadCloudIcon } from './Icons';
 
 interface VideoUploadProps {
   onFileChange: (file: File | null) => void;
+  /** When provided, selecting or dropping several videos at once hands them all to this callback. */
+  onMultipleFiles?: (files: File[]) => void;
   disabled: boolean;
 }
 
-const VideoUpload: React.FC<VideoUploadProps> = ({ onFileChange, disabled }) => {
+const VideoUpload: React.FC<VideoUploadProps> = ({ onFileChange, onMultipleFiles, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -28,6 +30,15 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ onFileChange, disabled }) =>
     e.stopPropagation();
   }, []);
 
+  const handleFiles = useCallback((files: FileList | null) => {
+    const videos = files ? Array.from(files) : [];
+    if (videos.length > 1 && onMultipleFiles) {
+      onMultipleFiles(videos);
+    } else {
+      onFileChange(videos[0] ?? null);
+    }
+  }, [onFileChange, onMultipleFiles]);
+
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -35,18 +46,15 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ onFileChange, disabled }) =>
     if (!disabled) {
       const files = e.dataTransfer.files;
       if (files && files.length > 0) {
-        onFileChange(files[0]);
+        handleFiles(files);
       }
     }
-  }, [onFileChange, disabled]);
+  }, [handleFiles, disabled]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      onFileChange(files[0]);
-    } else {
-      onFileChange(null);
-    }
+    handleFiles(e.target.files);
+    // Allow re-selecting the same files later.
+    e.target.value = '';
   };
 
   const handleClick = () => {
@@ -73,13 +81,16 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ onFileChange, disabled }) =>
           <p className="mb-2 text-sm text-gray-400">
             <span className="font-semibold text-indigo-400">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500">MP4, AVI, MOV, or other video formats</p>
+          <p className="text-xs text-gray-500">
+            MP4, AVI, MOV, or other video formats{onMultipleFiles ? ' — select several to queue a batch' : ''}
+          </p>
         </div>
         <input
           ref={fileInputRef}
           id="video-upload-input"
           type="file"
           accept="video/*"
+          multiple={!!onMultipleFiles}
           className="hidden"
           onChange={handleFileSelect}
           disabled={disabled}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnalysisStage, ChunkProgress, DetectionProvider, IdentifiedObject, StructuredQuery, TokenUsage } from '../types';
+import { analyzeVideo, AnalyzeVideoOptions } from '../services/analysisPipeline';
+import { attachFrames } from '../services/frameService';
+import { describeVideoFile, saveAnalysis } from '../services/historyStore';
+import { describeError, ErrorNotice } from '../services/analysisErrors';
+import { includedTerms } from '../utils/queryTerms';
+import { isAbortError } from '../utils/abort';
+
+export type BatchStatus = 'pending' | 'uploading' | 'analyzing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  /** The query terms of the run that last processed this video. */
+  targetObjects: string[];
+  chunkProgress: ChunkProgress | null;
+  objects: IdentifiedObject[];
+  rawJson: string | null;
+  usage: TokenUsage | null;
+  error: ErrorNotice | null;
+  savedAnalysisId: string | null;
+}
+
+export interface BatchRun {
+  provider: DetectionProvider;
+  query: StructuredQuery;
+  includePrices: boolean;
+  /** The model settings, analysis mode and currency rates of a single-file run; the analysis range belongs to one video and isn't used. */
+  requestOptions: Pick<AnalyzeVideoOptions, 'model' | 'temperature' | 'mediaResolution' | 'template' | 'mode' | 'sampling' | 'rates'>;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const statusForStage = (stage: AnalysisStage): BatchStatus =>
+  stage === 'reading' || stage === 'uploading' ? 'uploading' : 'analyzing';
+
+const isActive = (item: BatchItem) => item.status === 'uploading' || item.status === 'analyzing';
+
+/**
+ * Holds a queue of videos analyzed with one query and runs up to `concurrency` of them at a time.
+ * Each finished video is also saved to the analysis history.
+ * @param onUsage Called with the usage of every finished video, for session totals.
+ */
+export const useBatchQueue = (onItemSaved?: () => void, onUsage?: (usage: TokenUsage) => void) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const [run, setRun] = useState<BatchRun | null>(null);
+  // Items handed to a worker; guards against the scheduling effect starting one twice.
+  const startedRef = useRef<Set<string>>(new Set());
+  // One per item in flight, to cancel it.
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  useEffect(() => () => controllersRef.current.forEach(controller => controller.abort()), []);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const processItem = useCallback(async (item: BatchItem, { provider, query, includePrices, requestOptions }: BatchRun) => {
+    const targetObjects = includedTerms(query);
+    updateItem(item.id, { status: 'uploading', targetObjects, error: null, chunkProgress: null });
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    const { signal } = controller;
+    try {
+      const { objects, rawJson, usage, run } = await analyzeVideo(provider, item.file, targetObjects, {
+        ...requestOptions,
+        onProgress: chunkProgress => updateItem(item.id, { chunkProgress }),
+        onStage: stage => updateItem(item.id, { status: statusForStage(stage) }),
+        query,
+        includePrices,
+        signal,
+      });
+      const withFrames = await attachFrames(item.file, objects, { signal });
+      const saved = await saveAnalysis({
+        video: describeVideoFile(item.file),
+        targetObjects,
+        query,
+        providerId: provider.id,
+        rawJson,
+        objects: withFrames,
+        usage,
+        run,
+      }).catch(e => {
+        console.error('Failed to save batch result to history', e);
+        return null;
+      });
+      updateItem(item.id, { status: 'done', objects: withFrames, rawJson, usage: usage ?? null, savedAnalysisId: saved?.id ?? null, chunkProgress: null });
+      if (usage) onUsage?.(usage);
+      if (saved) onItemSaved?.();
+    } catch (err) {
+      if (isAbortError(err)) {
+        updateItem(item.id, { status: 'pending', chunkProgress: null });
+        return;
+      }
+      console.error(`Batch analysis failed for ${item.file.name}`, err);
+      updateItem(item.id, {
+        status: 'failed',
+        chunkProgress: null,
+        error: describeError(err, 'Unknown error.'),
+      });
+    } finally {
+      startedRef.current.delete(item.id);
+      controllersRef.current.delete(item.id);
+    }
+  }, [updateItem, onItemSaved, onUsage]);
+
+  useEffect(() => {
+    if (!run) return;
+
+    const active = items.filter(isActive).length;
+    const pending = items.filter(item => item.status === 'pending' && !startedRef.current.has(item.id));
+
+    if (active === 0 && pending.length === 0) {
+      setRun(null);
+      return;
+    }
+
+    pending.slice(0, Math.max(0, concurrency - active)).forEach(item => {
+      startedRef.current.add(item.id);
+      processItem(item, run);
+    });
+  }, [items, run, concurrency, processItem]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({
+        id: crypto.randomUUID(),
+        file,
+        status: 'pending' as const,
+        targetObjects: [],
+        chunkProgress: null,
+        objects: [],
+        rawJson: null,
+        usage: null,
+        error: null,
+        savedAnalysisId: null,
+      })),
+    ]);
+  }, []);
+
+  const start = useCallback((nextRun: BatchRun) => {
+    setRun(nextRun);
+  }, []);
+
+  /**
+   * Stops the batch: nothing more is started and the videos in flight are aborted and put back in the queue.
+   */
+  const cancel = useCallback(() => {
+    setRun(null);
+    controllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  /**
+   * Puts a failed video back in the queue. If the batch has finished, it restarts with `nextRun`, the current
+   * query and settings; a running batch keeps its own.
+   */
+  const retry = useCallback((id: string, nextRun: BatchRun) => {
+    updateItem(id, { status: 'pending', error: null });
+    setRun(prev => prev ?? nextRun);
+  }, [updateItem]);
+
+  /**
+   * Removes a video from the queue, aborting it if it is being analyzed.
+   */
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems(prev => prev.filter(isActive));
+  }, []);
+
+  return {
+    items,
+    concurrency,
+    setConcurrency,
+    isRunning: run !== null,
+    addFiles,
+    start,
+    cancel,
+    retry,
+    remove,
+    clear,
+  };
+};
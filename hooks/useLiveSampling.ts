@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DetectionProvider, IdentifiedObject, StructuredQuery, TokenUsage } from '../types';
+import { analyzeVideo, AnalyzeVideoOptions } from '../services/analysisPipeline';
+import { attachFrames } from '../services/frameService';
+import { isStreamActive, recordClip } from '../services/mediaCapture';
+import { shiftObjectTime } from '../services/tracks';
+import { describeError, ErrorNotice } from '../services/analysisErrors';
+import { includedTerms } from '../utils/queryTerms';
+import { isAbortError } from '../utils/abort';
+
+// Clips waiting for analysis beyond this are dropped, oldest first, so results stay close to live.
+const MAX_PENDING_CLIPS = 3;
+// Analyzed clips, with their recordings and frames, beyond this are forgotten oldest first, so a long session stays bounded.
+export const MAX_KEPT_CLIPS = 20;
+
+/**
+ * One rolling clip and its detections. Detection times are relative to the clip, like any other video.
+ */
+export interface LiveClip {
+  id: string;
+  file: File;
+  /** Seconds from the start of the sampling session to the start of this clip. */
+  start: number;
+  targetObjects: string[];
+  objects: IdentifiedObject[];
+  rawJson: string | null;
+  usage: TokenUsage | null;
+  savedAnalysisId: null;
+}
+
+/**
+ * A detection on the session timeline, with the clip it came from.
+ */
+export interface LiveDetection extends IdentifiedObject {
+  clip: LiveClip;
+}
+
+export interface LiveRun {
+  provider: DetectionProvider;
+  query: StructuredQuery;
+  includePrices: boolean;
+  /** The model settings, analysis mode and currency rates of a single-file run. */
+  requestOptions: Pick<AnalyzeVideoOptions, 'model' | 'temperature' | 'mediaResolution' | 'template' | 'mode' | 'sampling' | 'rates'>;
+}
+
+/**
+ * Records a stream in consecutive clips of `intervalSeconds` and analyzes each one as it finishes,
+ * appending its detections to a live list. Clips are analyzed one at a time while the next is recorded, and only
+ * the last MAX_KEPT_CLIPS are kept.
+ * @param onUsage Called with the usage of every analyzed clip, for session totals.
+ */
+export const useLiveSampling = (onUsage?: (usage: TokenUsage) => void) => {
+  const [clips, setClips] = useState<LiveClip[]>([]);
+  const [isSampling, setIsSampling] = useState<boolean>(false);
+  const [pendingCount, setPendingCount] = useState<number>(0);
+  const [droppedCount, setDroppedCount] = useState<number>(0);
+  const [expiredCount, setExpiredCount] = useState<number>(0);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsSampling(false);
+    setPendingCount(0);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const start = useCallback((stream: MediaStream, intervalSeconds: number, run: LiveRun) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    const targetObjects = includedTerms(run.query);
+    const queue: LiveClip[] = [];
+    let wake: (() => void) | null = null;
+    let recordingDone = false;
+    let analyzedCount = 0;
+    const sessionStart = performance.now();
+
+    setClips([]);
+    setDroppedCount(0);
+    setExpiredCount(0);
+    setError(null);
+    setIsSampling(true);
+
+    const record = async () => {
+      while (!signal.aborted && isStreamActive(stream)) {
+        const start = (performance.now() - sessionStart) / 1000;
+        const file = await recordClip(stream, intervalSeconds, signal);
+        queue.push({ id: crypto.randomUUID(), file, start, targetObjects, objects: [], rawJson: null, usage: null, savedAnalysisId: null });
+        if (queue.length > MAX_PENDING_CLIPS) {
+          queue.shift();
+          setDroppedCount(n => n + 1);
+        }
+        setPendingCount(queue.length);
+        wake?.();
+      }
+    };
+
+    const analyze = async () => {
+      while (!signal.aborted) {
+        const clip = queue.shift();
+        if (!clip) {
+          if (recordingDone) return;
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+          continue;
+        }
+        setPendingCount(queue.length);
+        try {
+          const { objects, rawJson, usage } = await analyzeVideo(run.provider, clip.file, targetObjects, {
+            ...run.requestOptions,
+            query: run.query,
+            includePrices: run.includePrices,
+            signal,
+          });
+          const withFrames = await attachFrames(clip.file, objects, { signal });
+          analyzedCount++;
+          setClips(prev => [...prev, { ...clip, objects: withFrames, rawJson, usage: usage ?? null }].slice(-MAX_KEPT_CLIPS));
+          setExpiredCount(Math.max(0, analyzedCount - MAX_KEPT_CLIPS));
+          if (usage) onUsage?.(usage);
+          setError(null);
+        } catch (e) {
+          if (isAbortError(e)) return;
+          console.error('Live sampling failed to analyze a clip', e);
+          setError(describeError(e, 'Unknown error.'));
+        }
+      }
+    };
+
+    record()
+      .catch(e => {
+        if (!isAbortError(e)) {
+          console.error('Live sampling stopped recording', e);
+          setError(describeError(e, 'Recording failed.'));
+        }
+      })
+      .finally(() => {
+        recordingDone = true;
+        wake?.();
+      });
+    analyze().finally(() => {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSampling(false);
+        setPendingCount(0);
+      }
+    });
+  }, [onUsage]);
+
+  const clear = useCallback(() => {
+    setClips([]);
+    setExpiredCount(0);
+  }, []);
+
+  // Detections on the session timeline, newest clip first.
+  const detections = useMemo<LiveDetection[]>(() => [...clips]
+    .reverse()
+    .flatMap(clip => clip.objects.map(obj => ({ ...obj, ...shiftObjectTime(obj, clip.start, clip.start, Infinity), clip }))), [clips]);
+
+  return { clips, detections, isSampling, pendingCount, droppedCount, expiredCount, error, start, stop, clear };
+};
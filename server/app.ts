@@ -0,0 +1,50 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { GoogleGenAI } from "@google/genai";
+import { IDENTIFY_FRAMES_PATH, IDENTIFY_PATH } from "../services/identifyApi";
+import { ServerConfig } from "./config";
+import { HttpError } from "./httpError";
+import { createRateLimiter } from "./rateLimit";
+import { createVideoStore } from "./videoStore";
+import { ApiContext, handleIdentify, handleIdentifyFrames } from "./identifyRoute";
+import { sendError, sendJson } from "./respond";
+
+// Request options, including a custom prompt template, travel in a header; Node's 16 KB default is tight.
+const MAX_HEADER_BYTES = 64 * 1024;
+
+const route = async (req: IncomingMessage, res: ServerResponse, context: ApiContext) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname === '/api/health' && req.method === 'GET') {
+    return sendJson(res, 200, { ok: true, hasApiKey: context.ai !== null });
+  }
+  if (pathname === IDENTIFY_PATH) {
+    if (req.method !== 'POST') throw new HttpError(405, `Use POST for ${IDENTIFY_PATH}.`);
+    return handleIdentify(req, res, context);
+  }
+  if (pathname === IDENTIFY_FRAMES_PATH) {
+    if (req.method !== 'POST') throw new HttpError(405, `Use POST for ${IDENTIFY_FRAMES_PATH}.`);
+    return handleIdentifyFrames(req, res, context);
+  }
+  throw new HttpError(404, `No route for ${req.method} ${pathname}.`);
+};
+
+/**
+ * The API server: holds the Gemini key so it never reaches the browser, and runs analyses for the app.
+ */
+export const createApiServer = (config: ServerConfig) => {
+  const context: ApiContext = {
+    config,
+    ai: config.apiKey
+      ? new GoogleGenAI({ apiKey: config.apiKey, httpOptions: config.modelBaseUrl ? { baseUrl: config.modelBaseUrl } : undefined })
+      : null,
+    rateLimiter: createRateLimiter(config.requestsPerMinute),
+    videos: createVideoStore({
+      ttlMs: config.videoTtlMs,
+      maxBytes: config.maxStoredVideoBytes,
+      maxPerClient: config.maxVideosPerClient,
+    }),
+  };
+
+  return createServer({ maxHeaderSize: MAX_HEADER_BYTES }, (req, res) => {
+    route(req, res, context).catch(error => sendError(req, res, error));
+  });
+};
@@ -0,0 +1,38 @@
+export interface ServerConfig {
+  port: number;
+  /** The Gemini key. Without it every analysis fails with an 'auth' error. */
+  apiKey: string | undefined;
+  /** Overrides the Gemini endpoint, e.g. to point at the stub model (npm run stub-model). */
+  modelBaseUrl: string | undefined;
+  maxUploadBytes: number;
+  /** Analysis requests each client may make per minute; chunked analysis makes one per chunk. */
+  requestsPerMinute: number;
+  /** Identify clients by the first X-Forwarded-For address. Only enable behind a proxy that sets it. */
+  trustProxy: boolean;
+  /** How long an uploaded video is kept for follow-up requests (chunks, retries) after its last use. */
+  videoTtlMs: number;
+  /** The most memory held videos may take up across all clients. */
+  maxStoredVideoBytes: number;
+  /** The most videos held for one client at a time. */
+  maxVideosPerClient: number;
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the server settings from environment variables.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv): ServerConfig => ({
+  port: readNumber(env.API_PORT, 8787),
+  apiKey: env.GEMINI_API_KEY || undefined,
+  modelBaseUrl: env.GEMINI_BASE_URL || undefined,
+  maxUploadBytes: readNumber(env.MAX_UPLOAD_MB, 500) * 1024 * 1024,
+  requestsPerMinute: readNumber(env.RATE_LIMIT_PER_MINUTE, 30),
+  trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+  videoTtlMs: readNumber(env.VIDEO_TTL_MINUTES, 15) * 60_000,
+  maxStoredVideoBytes: readNumber(env.VIDEO_STORE_MB, 512) * 1024 * 1024,
+  maxVideosPerClient: readNumber(env.VIDEOS_PER_CLIENT, 4),
+});
@@ -0,0 +1,86 @@
+import { ApiError, FinishReason, GenerateContentResponse } from "@google/genai";
+import { AnalysisError, toAnalysisError } from "../services/analysisErrors";
+
+// Turns Gemini SDK errors and responses into AnalysisErrors. Kept out of services/ so the SDK never
+// reaches the browser bundle.
+
+interface ApiErrorBody {
+  message?: string;
+  status?: string;
+  details?: { '@type'?: string; retryDelay?: string }[];
+}
+
+/**
+ * ApiError messages carry the JSON error body returned by the API.
+ */
+const parseApiErrorBody = (error: ApiError): ApiErrorBody => {
+  try {
+    const parsed = JSON.parse(error.message);
+    return typeof parsed?.error === 'object' && parsed.error !== null ? parsed.error : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Reads the server's suggested delay from a google.rpc.RetryInfo detail, e.g. "27s" or "1.5s".
+ */
+const readRetryDelay = (body: ApiErrorBody): number | undefined => {
+  const retryDelay = body.details?.find(detail => detail.retryDelay)?.retryDelay;
+  const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+const classifyApiError = (error: ApiError): AnalysisError => {
+  const body = parseApiErrorBody(error);
+  const text = `${body.status ?? ''} ${body.message ?? error.message}`;
+  const cause = error;
+
+  if (error.status === 401 || error.status === 403 || /API[_ ]KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text)) {
+    return new AnalysisError('auth', { cause });
+  }
+  if (error.status === 429 || /RESOURCE_EXHAUSTED/.test(text)) {
+    return new AnalysisError('quota', { cause, retryAfterMs: readRetryDelay(body) });
+  }
+  if (error.status === 413 || /too large|exceeds the (maximum|limit)/i.test(text)) {
+    return new AnalysisError('payload-too-large', { cause });
+  }
+  if (error.status === 415 || /mime|unsupported (media|file|format)|could not (decode|process) (the )?video/i.test(text)) {
+    return new AnalysisError('unsupported-media', { cause });
+  }
+  if (error.status >= 500) {
+    return new AnalysisError('unavailable', { cause, retryAfterMs: readRetryDelay(body) });
+  }
+  return new AnalysisError('unknown', { cause, message: `Gemini rejected the request: ${body.message ?? error.message}` });
+};
+
+/**
+ * Converts anything thrown while calling Gemini into an AnalysisError, reading the API's error body when
+ * there is one. Abort errors are returned unchanged so cancellation is never mistaken for a failure.
+ */
+export const classifyGeminiError = (error: unknown): unknown =>
+  error instanceof ApiError ? classifyApiError(error) : toAnalysisError(error);
+
+/**
+ * Checks a response for a safety block or a missing/truncated answer before its text is parsed.
+ * @returns The response text.
+ */
+export const readResponseText = (response: GenerateContentResponse): string => {
+  if (response.promptFeedback?.blockReason) {
+    throw new AnalysisError('safety', { message: `Gemini blocked the request (${response.promptFeedback.blockReason}).` });
+  }
+  const candidate = response.candidates?.[0];
+  if (!candidate) {
+    throw new AnalysisError('malformed-response', { message: 'Gemini returned no candidates.' });
+  }
+  switch (candidate.finishReason) {
+    case FinishReason.SAFETY:
+    case FinishReason.PROHIBITED_CONTENT:
+    case FinishReason.BLOCKLIST:
+    case FinishReason.SPII:
+      throw new AnalysisError('safety', { message: `Gemini stopped the response (${candidate.finishReason}).` });
+    case FinishReason.MAX_TOKENS:
+      throw new AnalysisError('malformed-response', { message: 'Gemini ran out of output tokens before finishing the response.' });
+  }
+  return response.text?.trim() ?? '';
+};
@@ -0,0 +1,333 @@
+import { File as GeminiFile, FileState, GoogleGenAI, MediaResolution, Part, Type } from "@google/genai";
+import { IdentifyResult, RunInfo, SampledFrame } from "../types";
+import { parseDetectionsJson } from "../services/responseValidation";
+import { AnalysisError } from "../services/analysisErrors";
+import { toTokenUsage } from "../services/usage";
+import { BUILT_IN_TEMPLATES, renderPromptTemplate } from "../services/promptTemplates";
+import { DEFAULT_MODEL_SETTINGS } from "../services/modelSettings";
+import { DetectionRequestOptions } from "../services/detectionRequest";
+import { queryFromTerms } from "../utils/queryTerms";
+import { sleep } from "../utils/abort";
+import { classifyGeminiError, readResponseText } from "./geminiErrors";
+
+// The model request itself. Nothing here touches the DOM or the file system.
+
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_PROCESSING_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Waits until Gemini has finished processing an uploaded file, for at most FILE_PROCESSING_TIMEOUT_MS.
+ * @returns A Promise that resolves with a part referencing the file.
+ */
+export const waitForProcessedFile = async (ai: GoogleGenAI, uploaded: GeminiFile, mimeType: string, signal?: AbortSignal): Promise<Part> => {
+  const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+  while (uploaded.state === FileState.PROCESSING) {
+    if (Date.now() >= deadline) {
+      throw new AnalysisError('unavailable', { message: 'Gemini took too long to process the uploaded video.' });
+    }
+    await sleep(FILE_POLL_INTERVAL_MS, signal);
+    uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+  }
+
+  if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+    throw new AnalysisError('unsupported-media', { message: 'Gemini could not process the uploaded video.' });
+  }
+
+  return { fileData: { fileUri: uploaded.uri, mimeType } };
+};
+
+const boundingBoxSchema = {
+  type: Type.OBJECT,
+  description: 'Critically accurate, normalized coordinates of the bounding box. Must be a tight fit.',
+  properties: {
+    x_min: { type: Type.NUMBER },
+    y_min: { type: Type.NUMBER },
+    x_max: { type: Type.NUMBER },
+    y_max: { type: Type.NUMBER },
+  },
+  required: ['x_min', 'y_min', 'x_max', 'y_max'],
+};
+
+const priceSchema = {
+  type: Type.STRING,
+  description: 'Estimated market price range with its currency symbol or code (e.g. "$450 - $550").',
+};
+
+// In frames mode the model points at frames by index instead of estimating times; see `framesToVideoJson`.
+const frameTimeProperties = {
+  frame: {
+    type: Type.INTEGER,
+    description: 'The index of the frame in which the object is most clearly visible.',
+  },
+  firstFrame: {
+    type: Type.INTEGER,
+    description: 'The index of the first frame in which the object is visible.',
+  },
+  lastFrame: {
+    type: Type.INTEGER,
+    description: 'The index of the last frame in which the object is visible.',
+  },
+  track: {
+    type: Type.ARRAY,
+    description: 'The bounding box of the object in every frame in which it is visible.',
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        frame: { type: Type.INTEGER },
+        boundingBox: boundingBoxSchema,
+      },
+      required: ['frame', 'boundingBox'],
+    },
+  },
+};
+
+const videoTimeProperties = {
+  timestamp: {
+    type: Type.NUMBER,
+    description: 'The time in seconds when the object is most clearly visible.',
+  },
+  firstSeen: {
+    type: Type.NUMBER,
+    description: 'The time in seconds when the object first becomes visible.',
+  },
+  lastSeen: {
+    type: Type.NUMBER,
+    description: 'The time in seconds when the object was last visible.',
+  },
+  track: {
+    type: Type.ARRAY,
+    description: 'The bounding box of the object sampled about once per second while it is visible.',
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        timestamp: { type: Type.NUMBER },
+        boundingBox: boundingBoxSchema,
+      },
+      required: ['timestamp', 'boundingBox'],
+    },
+  },
+};
+
+/**
+ * The JSON schema for the detection array. Prices are only requested when price enrichment is enabled.
+ */
+const buildResponseSchema = (includePrices: boolean, frames: boolean) => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: {
+        type: Type.STRING,
+        description: 'The most specific name of the object (e.g. "Red 2021 Honda Civic", not "car").',
+      },
+      description: {
+        type: Type.STRING,
+        description: 'A brief visual description of the object.',
+      },
+      boundingBox: boundingBoxSchema,
+      ...(includePrices ? { price: priceSchema } : {}),
+      queryTerm: {
+        type: Type.STRING,
+        description: 'The item to find that this object matches, copied exactly as its quoted name in the list of items to find.',
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'Certainty of the identification, from 0 (a guess) to 1 (certain).',
+      },
+      ...(frames ? frameTimeProperties : videoTimeProperties),
+    },
+    required: [
+      'name', 'description', 'boundingBox', 'track', 'queryTerm', 'confidence',
+      ...(frames ? ['frame', 'firstFrame', 'lastFrame'] : ['timestamp', 'firstSeen', 'lastSeen']),
+      ...(includePrices ? ['price'] : []),
+    ],
+  },
+});
+
+const toOffset = (seconds: number): string => `${seconds.toFixed(3)}s`;
+
+/**
+ * The prompt for a video, or for `frameCount` labeled frames sampled from one.
+ */
+const buildPrompt = (targetObjects: string[], options: DetectionRequestOptions, frameCount?: number): string => {
+  const { clip, includePrices = false, template = BUILT_IN_TEMPLATES[0] } = options;
+  const query = options.query ?? queryFromTerms(targetObjects);
+  const frames = frameCount !== undefined;
+
+  const inputDirective = frames
+    ? `**INPUT:** Instead of a video you are given ${frameCount} still frames sampled from one, in time order. Each frame is preceded by its label, "Frame <index> (<seconds>s)". The same physical object seen in several frames is ONE entry, tracked across those frames. Refer to frames only by their index.`
+    : '';
+  const clipDirective = clip && !frames
+    ? '**CLIP TIMING:** You are viewing a clip of a longer video. Report every "timestamp" in seconds relative to the start of this clip, where 0 is the first frame of the clip.'
+    : '';
+
+  const timeKeys = frames
+    ? [
+      `"frame": (Integer) The index of the frame in which the object is best seen.`,
+      `"firstFrame": (Integer) The index of the first frame in which this instance is visible.`,
+      `"lastFrame": (Integer) The index of the last frame in which this instance is visible.`,
+      `"track": (Array) The instance's position in every frame in which it is visible: objects with "frame" (Integer) and "boundingBox" (same format as above).`,
+    ]
+    : [
+      `"firstSeen": (Number) The time in seconds when this instance first becomes visible.`,
+      `"lastSeen": (Number) The time in seconds when this instance was last visible.`,
+      `"track": (Array) The instance's movement while visible: objects with "timestamp" (Number, seconds) and "boundingBox" (same format as above), sampled about once per second from "firstSeen" to "lastSeen".`,
+    ];
+
+  const outputKeys = [
+    `"name": (String) The most specific name possible, as described above.`,
+    `"description": (String) A concise visual description of the object.`,
+    ...(frames ? [] : [`"timestamp": (Number) The precise time in seconds (e.g., 12.75) when the object is best seen.`]),
+    `"boundingBox": (Object) An object with normalized coordinates ("x_min", "y_min", "x_max", "y_max"). The box MUST be a tight fit around the object's visible pixels with minimal to no background padding.`,
+    ...(includePrices ? [`"price": (String) The estimated current market price range, including its currency symbol or code.`] : []),
+    ...timeKeys,
+    `"queryTerm": (String) Which of the items to find this object matches, copied exactly as the quoted name in the list above (not a synonym).`,
+    `"confidence": (Number) How certain you are of the identification, from 0 (a guess) to 1 (certain).`,
+  ];
+
+  return `
+    ${renderPromptTemplate(template.text, query)}
+    ${inputDirective}
+
+    **CRITICAL DIRECTIVES - PRECISION IS PARAMOUNT:**
+    - **IDENTIFY ALL PHYSICAL INSTANCES:** This is your #1 most important rule. You must identify every single physically separate instance of an object. For example, if you see four mugs on a table, even if they are the exact same model, you MUST return four separate entries. Do NOT group or de-duplicate physically separate items. Missing any instance is a failure.
+    - **EXHAUSTIVE SEARCH:** You must find ALL instances of the target objects. Pay extreme attention to objects in the background, those that appear briefly, are partially obscured, or are in cluttered scenes.
+    - **ACCURATE BOUNDING BOXES:** This is non-negotiable. The bounding box coordinates MUST be extremely precise and tightly frame the object.
+    - **CALIBRATED CONFIDENCE:** Scrutinize details to ensure correct identification and differentiate between real items and look-alikes. If you are unsure about an object, still include it, but give it a low "confidence" instead of leaving it out.
+    ${includePrices ? '- **REALISTIC PRICING:** Provide a realistic, estimated current market price range for each object, with its currency (e.g., "$450 - $550").' : ''}
+
+    **Output Format:**
+    You MUST return a valid JSON array of objects. Each object represents ONE unique detected item and must contain these keys:
+    ${outputKeys.map((key, index) => `${index + 1}. ${key}`).join('\n    ')}
+
+    Before responding, perform a final review of your work to ensure you have not missed or incorrectly grouped any items. If no instances of the target objects are detected, you must return an empty JSON array: [].
+    ${clipDirective}
+  `;
+};
+
+const frameTime = (frames: SampledFrame[], index: unknown): number | undefined =>
+  typeof index === 'number' ? frames[index]?.timestamp : undefined;
+
+/**
+ * Rewrites a frames-mode response into the video-mode shape, replacing frame indices with the frames' timestamps.
+ * Unknown indices leave the time out, so validation rejects that detection or track point instead of guessing.
+ */
+const framesToVideoJson = (text: string, frames: SampledFrame[]): string => {
+  let items: unknown;
+  try {
+    items = JSON.parse(text);
+  } catch {
+    return text;
+  }
+  if (!Array.isArray(items)) return text;
+  return JSON.stringify(items.map(item => {
+    if (typeof item !== 'object' || item === null) return item;
+    const { frame, firstFrame, lastFrame, track, ...rest } = item;
+    return {
+      ...rest,
+      timestamp: frameTime(frames, frame),
+      firstSeen: frameTime(frames, firstFrame),
+      lastSeen: frameTime(frames, lastFrame),
+      track: Array.isArray(track)
+        ? track.map(point => ({ timestamp: frameTime(frames, point?.frame), boundingBox: point?.boundingBox }))
+        : track,
+    };
+  }));
+};
+
+/**
+ * Sends the prompt and media parts and validates the response. `frames` switches to the frame-index schema.
+ */
+const generateDetections = async (
+  ai: GoogleGenAI,
+  mediaParts: Part[],
+  targetObjects: string[],
+  options: DetectionRequestOptions,
+  frames: SampledFrame[] | undefined,
+  signal?: AbortSignal,
+): Promise<IdentifyResult> => {
+  const {
+    includePrices = false,
+    model = DEFAULT_MODEL_SETTINGS.model,
+    temperature = DEFAULT_MODEL_SETTINGS.temperature,
+    mediaResolution = DEFAULT_MODEL_SETTINGS.mediaResolution,
+    template = BUILT_IN_TEMPLATES[0],
+  } = options;
+  const run: RunInfo = {
+    model, temperature, mediaResolution, templateId: template.id, templateName: template.name,
+    mode: frames ? 'frames' : 'video',
+    ...(frames ? { frameCount: frames.length } : {}),
+  };
+  // Pixel boxes are relative to what the model saw, which for frames is the downsized image.
+  const frameSize = frames ? { width: frames[0].width, height: frames[0].height } : options.frameSize;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { text: buildPrompt(targetObjects, options, frames?.length) },
+          ...mediaParts,
+        ],
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(includePrices, !!frames),
+        temperature,
+        ...(mediaResolution === 'low' ? { mediaResolution: MediaResolution.MEDIA_RESOLUTION_LOW } : {}),
+      },
+    });
+
+    const responseText = readResponseText(response);
+    const usage = toTokenUsage(model, response.usageMetadata);
+    if (!responseText) {
+      return { objects: [], rawJson: '[]', issues: [], usage, run };
+    }
+
+    const text = frames ? framesToVideoJson(responseText, frames) : responseText;
+    return { ...parseDetectionsJson(text, frameSize), rawJson: text, usage, run };
+  } catch (error) {
+    const classified = classifyGeminiError(error);
+    if (classified instanceof AnalysisError) {
+      console.error("Error generating content from Gemini API:", error);
+    }
+    throw classified;
+  }
+};
+
+/**
+ * Runs one detection request against an already prepared video part. Failures are thrown as AnalysisErrors;
+ * retrying is left to the caller.
+ */
+export const requestDetections = (
+  ai: GoogleGenAI,
+  videoPart: Part,
+  targetObjects: string[],
+  options: DetectionRequestOptions,
+  signal?: AbortSignal,
+): Promise<IdentifyResult> => {
+  const { clip } = options;
+  const clippedVideoPart: Part = clip
+    ? { ...videoPart, videoMetadata: { startOffset: toOffset(clip.start), endOffset: toOffset(clip.end) } }
+    : videoPart;
+  return generateDetections(ai, [clippedVideoPart], targetObjects, options, undefined, signal);
+};
+
+/**
+ * Runs one detection request against labeled frames. Returned times are the frames' own timestamps, so the
+ * caller decides the timeline (e.g. clip-relative) when sampling. Failures are thrown as AnalysisErrors.
+ */
+export const requestFrameDetections = (
+  ai: GoogleGenAI,
+  frames: SampledFrame[],
+  targetObjects: string[],
+  options: DetectionRequestOptions,
+  signal?: AbortSignal,
+): Promise<IdentifyResult> => {
+  const frameParts: Part[] = frames.flatMap((frame, index) => [
+    { text: `Frame ${index} (${frame.timestamp.toFixed(3)}s)` },
+    { inlineData: { mimeType: frame.mimeType, data: frame.data } },
+  ]);
+  return generateDetections(ai, frameParts, targetObjects, options, frames, signal);
+};
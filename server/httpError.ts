@@ -0,0 +1,13 @@
+/**
+ * A request the server refuses before any analysis starts, e.g. a malformed header or an unknown route.
+ * Analysis failures are AnalysisErrors instead, so the client can classify them.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
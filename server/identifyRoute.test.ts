@@ -0,0 +1,80 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { createApiServer } from "./app";
+import { IDENTIFY_FRAMES_PATH, IDENTIFY_PATH, OPTIONS_HEADER, VIDEO_ID_HEADER } from "../services/identifyApi";
+import { MAX_FRAME_DATA_BYTES } from "../services/detectionRequest";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  // No key: a request that passes validation fails with 'auth' instead of reaching a model.
+  server = createApiServer({
+    port: 0,
+    apiKey: undefined,
+    modelBaseUrl: undefined,
+    maxUploadBytes: 1024 * 1024,
+    requestsPerMinute: 1,
+    trustProxy: false,
+    videoTtlMs: 60_000,
+    maxStoredVideoBytes: 1024 * 1024,
+    maxVideosPerClient: 1,
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const identify = (options: unknown, headers: Record<string, string> = {}) => fetch(`${baseUrl}${IDENTIFY_PATH}`, {
+  method: 'POST',
+  headers: { [OPTIONS_HEADER]: encodeURIComponent(JSON.stringify(options)), ...headers },
+});
+
+test('refuses malformed queries, frame sizes and video ids with a 400 that does not count against the rate limit', async () => {
+  const badQueries = [
+    {},
+    { include: 'mug', exclude: [] },
+    { include: [{ label: '' }], exclude: [] },
+    { include: [{ label: 'mug', synonyms: 'cup' }], exclude: [] },
+    { include: [{ label: 'mug', attributes: { color: 3 } }], exclude: [] },
+    { include: [{ label: 'mug' }], exclude: [1] },
+    { include: Array.from({ length: 51 }, (_, i) => ({ label: `item ${i}` })), exclude: [] },
+  ];
+  for (const query of badQueries) {
+    const response = await identify({ targetObjects: ['mug'], query });
+    assert.equal(response.status, 400, JSON.stringify(query));
+    const body = await response.json();
+    assert.equal(body.error.kind, 'unknown');
+    assert.match(body.error.message, /^query\./);
+  }
+
+  const badFrameSizes = [{ width: 0, height: 720 }, { width: 1280, height: -1 }, { width: 1280 }];
+  for (const frameSize of badFrameSizes) {
+    const response = await identify({ targetObjects: ['mug'], frameSize });
+    assert.equal(response.status, 400, JSON.stringify(frameSize));
+    assert.match((await response.json()).error.message, /^frameSize/);
+  }
+
+  const badVideoId = await identify({ targetObjects: ['mug'] }, { [VIDEO_ID_HEADER]: '../not an id' });
+  assert.equal(badVideoId.status, 400);
+
+  // The limit is one request a minute, and none has been used yet.
+  const response = await identify({ targetObjects: ['mug'], query: { include: [{ label: 'mug' }], exclude: [] } });
+  assert.equal(response.status, 502);
+  assert.equal((await response.json()).error.kind, 'auth');
+});
+
+test('refuses frames that add up to more than the shared frame budget', async () => {
+  const data = 'A'.repeat(Math.ceil(MAX_FRAME_DATA_BYTES / 2) + 1024);
+  const frames = [0, 1].map(timestamp => ({ timestamp, mimeType: 'image/jpeg', data, width: 512, height: 288 }));
+  const response = await fetch(`${baseUrl}${IDENTIFY_FRAMES_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ targetObjects: ['mug'], frames }),
+  });
+  assert.equal(response.status, 413);
+  assert.equal((await response.json()).error.kind, 'payload-too-large');
+});
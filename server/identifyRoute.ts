@@ -0,0 +1,233 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { GoogleGenAI, Part } from "@google/genai";
+import { MAX_FRAME_DATA_BYTES, MAX_FRAMES_PER_REQUEST } from "../services/detectionRequest";
+import { AnalysisError } from "../services/analysisErrors";
+import { QueryAttributes, QueryTerm, SampledFrame, StructuredQuery } from "../types";
+import { IdentifyFramesRequest, IdentifyRequest, OPTIONS_HEADER, VIDEO_HELD_HEADER, VIDEO_ID_HEADER } from "../services/identifyApi";
+import { isPromptTemplate } from "../services/promptTemplates";
+import { MAX_TEMPERATURE, MIN_TEMPERATURE } from "../services/modelSettings";
+import { AVAILABLE_MODELS } from "../services/usage";
+import { abortable } from "../utils/abort";
+import { ServerConfig } from "./config";
+import { HttpError } from "./httpError";
+import { RateLimiter } from "./rateLimit";
+import { hasBody, readJsonBody, receiveUpload } from "./upload";
+import { heldBytes, prepareVideoPart, VideoStore } from "./videoStore";
+import { requestDetections, requestFrameDetections } from "./geminiRequest";
+import { sendJson } from "./respond";
+
+export interface ApiContext {
+  config: ServerConfig;
+  /** Null when no key is configured. */
+  ai: GoogleGenAI | null;
+  rateLimiter: RateLimiter;
+  videos: VideoStore;
+}
+
+const MAX_TARGETS = 50;
+const MAX_SYNONYMS = 20;
+const ATTRIBUTE_KEYS: (keyof QueryAttributes)[] = ['color', 'brand', 'state'];
+const VIDEO_ID_PATTERN = /^[\w-]{1,64}$/;
+// The frames' data plus the options, labels and JSON around it.
+const MAX_FRAMES_BODY_BYTES = MAX_FRAME_DATA_BYTES + 1024 * 1024;
+const FRAME_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isStringArray = (value: unknown, maxLength: number): value is string[] =>
+  Array.isArray(value) && value.length <= maxLength && value.every(item => typeof item === 'string');
+
+const isQueryTerm = (value: unknown): boolean => {
+  const term = value as Partial<QueryTerm> | null;
+  const attributes = term?.attributes as Record<string, unknown> | undefined;
+  return typeof term?.label === 'string' && term.label.trim() !== ''
+    && (attributes === undefined || (typeof attributes === 'object' && attributes !== null
+      && ATTRIBUTE_KEYS.every(key => attributes[key] === undefined || typeof attributes[key] === 'string')))
+    && (term.synonyms === undefined || isStringArray(term.synonyms, MAX_SYNONYMS));
+};
+
+/**
+ * Checks a structured query and fills in the optional parts of each term.
+ */
+const validateQuery = (value: unknown): StructuredQuery => {
+  const query = value as Partial<StructuredQuery> | null;
+  if (!Array.isArray(query?.include) || query.include.length === 0 || query.include.length > MAX_TARGETS
+    || !query.include.every(isQueryTerm)) {
+    throw new HttpError(400, `query.include must list 1 to ${MAX_TARGETS} terms, each with a label and optional attributes and synonyms.`);
+  }
+  if (query.exclude !== undefined && !isStringArray(query.exclude, MAX_TARGETS)) {
+    throw new HttpError(400, `query.exclude must list at most ${MAX_TARGETS} strings.`);
+  }
+  return {
+    include: query.include.map(({ label, attributes = {}, synonyms = [] }) => ({
+      label,
+      attributes: Object.fromEntries(ATTRIBUTE_KEYS.filter(key => attributes[key] !== undefined).map(key => [key, attributes[key]])),
+      synonyms,
+    })),
+    exclude: query.exclude ?? [],
+  };
+};
+
+/**
+ * Checks the request options. Anything a browser could not have sent is refused rather than corrected.
+ */
+const validateIdentifyRequest = (value: unknown): IdentifyRequest => {
+  const request = value as Partial<IdentifyRequest> | null;
+  const { targetObjects, clip, frameSize, model, temperature, mediaResolution, template } = request ?? {};
+
+  if (!Array.isArray(targetObjects) || targetObjects.length === 0 || targetObjects.length > MAX_TARGETS
+    || !targetObjects.every(term => typeof term === 'string' && term.trim())) {
+    throw new HttpError(400, `targetObjects must list 1 to ${MAX_TARGETS} objects to find.`);
+  }
+  if (model !== undefined && !AVAILABLE_MODELS.includes(model)) {
+    throw new HttpError(400, `Unknown model "${model}".`);
+  }
+  if (temperature !== undefined && !(isFiniteNumber(temperature) && temperature >= MIN_TEMPERATURE && temperature <= MAX_TEMPERATURE)) {
+    throw new HttpError(400, `temperature must be between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}.`);
+  }
+  if (mediaResolution !== undefined && mediaResolution !== 'default' && mediaResolution !== 'low') {
+    throw new HttpError(400, 'mediaResolution must be "default" or "low".');
+  }
+  if (template !== undefined && !isPromptTemplate(template)) {
+    throw new HttpError(400, 'template must have an id, a name and a text.');
+  }
+  if (clip !== undefined && !(isFiniteNumber(clip?.start) && isFiniteNumber(clip?.end) && clip.start >= 0 && clip.end > clip.start)) {
+    throw new HttpError(400, 'clip must have a start and a later end, in seconds.');
+  }
+  if (frameSize !== undefined && !(isFiniteNumber(frameSize?.width) && isFiniteNumber(frameSize?.height)
+    && frameSize.width > 0 && frameSize.height > 0)) {
+    throw new HttpError(400, 'frameSize must have a positive width and height.');
+  }
+
+  return {
+    targetObjects, clip, frameSize, model, temperature, mediaResolution, template,
+    includePrices: request?.includePrices === true,
+    query: request?.query === undefined ? undefined : validateQuery(request.query),
+  };
+};
+
+const parseOptionsHeader = (header: string | string[] | undefined): IdentifyRequest => {
+  let value: unknown;
+  try {
+    value = JSON.parse(decodeURIComponent(String(header ?? '')));
+  } catch {
+    throw new HttpError(400, `Missing or unreadable ${OPTIONS_HEADER} header.`);
+  }
+  return validateIdentifyRequest(value);
+};
+
+const isSampledFrame = (frame: Partial<SampledFrame> | null): boolean =>
+  isFiniteNumber(frame?.timestamp) && frame.timestamp >= 0
+  && FRAME_MIME_TYPES.includes(frame.mimeType ?? '')
+  && typeof frame.data === 'string' && frame.data.length > 0
+  && isFiniteNumber(frame.width) && frame.width > 0
+  && isFiniteNumber(frame.height) && frame.height > 0;
+
+const validateFramesRequest = (value: unknown): IdentifyFramesRequest => {
+  const frames = (value as Partial<IdentifyFramesRequest> | null)?.frames;
+  if (!Array.isArray(frames) || frames.length === 0 || frames.length > MAX_FRAMES_PER_REQUEST) {
+    throw new HttpError(400, `frames must list 1 to ${MAX_FRAMES_PER_REQUEST} frames.`);
+  }
+  if (!frames.every(isSampledFrame)) {
+    throw new HttpError(400, `Every frame needs a timestamp, a width, a height, base64 data and one of ${FRAME_MIME_TYPES.join(', ')}.`);
+  }
+  if (frames.reduce((total, frame) => total + frame.data.length, 0) > MAX_FRAME_DATA_BYTES) {
+    throw new AnalysisError('payload-too-large', {
+      message: `The frames add up to more than ${MAX_FRAME_DATA_BYTES / 1024 / 1024} MB; sample fewer or smaller frames.`,
+    });
+  }
+  return {
+    ...validateIdentifyRequest(value),
+    frames: frames.map(({ timestamp, mimeType, data, width, height }) => ({ timestamp, mimeType, data, width, height })),
+  };
+};
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Counts the request against the client's rate limit.
+ * @returns The client's address.
+ */
+const takeRequest = (req: IncomingMessage, config: ServerConfig, rateLimiter: RateLimiter): string => {
+  const client = clientAddress(req, config.trustProxy);
+  const decision = rateLimiter.take(client);
+  if (!decision.allowed) {
+    throw new AnalysisError('quota', {
+      message: `Too many analysis requests; this server allows ${config.requestsPerMinute} per minute.`,
+      retryAfterMs: decision.retryAfterMs,
+    });
+  }
+  return client;
+};
+
+/**
+ * A signal that stops the model call if the browser cancels or goes away.
+ */
+const abortOnClose = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/**
+ * POST /api/identify: the body is the video, or empty to reuse the video last sent under the same video id.
+ * Responds with the IdentifyResult, or an ApiErrorResponse.
+ */
+export const handleIdentify = async (req: IncomingMessage, res: ServerResponse, { config, ai, rateLimiter, videos }: ApiContext) => {
+  // Malformed requests are refused before they count against the rate limit.
+  const request = parseOptionsHeader(req.headers[OPTIONS_HEADER]);
+  const videoIdHeader = req.headers[VIDEO_ID_HEADER];
+  if (videoIdHeader !== undefined && !(typeof videoIdHeader === 'string' && VIDEO_ID_PATTERN.test(videoIdHeader))) {
+    throw new HttpError(400, `Invalid ${VIDEO_ID_HEADER} header.`);
+  }
+  const videoId = typeof videoIdHeader === 'string' ? videoIdHeader : randomUUID();
+  const client = takeRequest(req, config, rateLimiter);
+  if (!ai) {
+    throw new AnalysisError('auth', { message: 'The API server has no Gemini API key configured.' });
+  }
+
+  const signal = abortOnClose(res);
+  let part: Promise<Part> | undefined;
+  if (hasBody(req)) {
+    const upload = await receiveUpload(req, config.maxUploadBytes);
+    try {
+      part = videos.add(videoId, client, heldBytes(upload), () => prepareVideoPart(ai, upload, signal));
+    } catch (error) {
+      await upload.remove();
+      throw error;
+    }
+  } else {
+    part = videos.get(videoId, client);
+    if (!part) {
+      throw new HttpError(410, 'The server no longer holds this video; send it again.');
+    }
+  }
+  const videoPart = await abortable(part, signal);
+  res.setHeader(VIDEO_HELD_HEADER, '1');
+
+  const result = await requestDetections(ai, videoPart, request.targetObjects, request, signal);
+  sendJson(res, 200, result);
+};
+
+/**
+ * POST /api/identify/frames: the JSON body is an IdentifyFramesRequest, frames and options together.
+ * Responds with the IdentifyResult, timed by the frames' timestamps, or an ApiErrorResponse.
+ */
+export const handleIdentifyFrames = async (req: IncomingMessage, res: ServerResponse, { config, ai, rateLimiter }: ApiContext) => {
+  const request = validateFramesRequest(await readJsonBody(req, MAX_FRAMES_BODY_BYTES));
+  takeRequest(req, config, rateLimiter);
+  if (!ai) {
+    throw new AnalysisError('auth', { message: 'The API server has no Gemini API key configured.' });
+  }
+
+  const { frames, ...options } = request;
+  const result = await requestFrameDetections(ai, frames, request.targetObjects, options, abortOnClose(res));
+  sendJson(res, 200, result);
+};
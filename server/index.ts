@@ -0,0 +1,21 @@
+import { existsSync } from "node:fs";
+import { loadConfig } from "./config";
+import { createApiServer } from "./app";
+
+// Same file the Vite dev server reads, so one .env.local configures both.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const config = loadConfig(process.env);
+const server = createApiServer(config);
+
+server.listen(config.port, () => {
+  console.log(`API server listening on http://localhost:${config.port}`);
+  if (!config.apiKey) console.warn('GEMINI_API_KEY is not set; every analysis will fail until it is.');
+  if (config.modelBaseUrl) console.log(`Sending model requests to ${config.modelBaseUrl}`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
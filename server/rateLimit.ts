@@ -0,0 +1,50 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** When not allowed, how long until the next request would be. */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets carry no state worth keeping; they are dropped once this many clients are tracked.
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * A token bucket per client: up to `requestsPerMinute` requests in a burst, refilled evenly over a minute.
+ */
+export const createRateLimiter = (requestsPerMinute: number, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = requestsPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+  };
+
+  const prune = (time: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= requestsPerMinute) buckets.delete(key);
+    }
+  };
+
+  return {
+    take: (client: string): RateLimitDecision => {
+      const time = now();
+      if (buckets.size >= PRUNE_THRESHOLD) prune(time);
+      const bucket = buckets.get(client) ?? { tokens: requestsPerMinute, updatedAt: time };
+      buckets.set(client, bucket);
+      refill(bucket, time);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
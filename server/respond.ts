@@ -0,0 +1,40 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { AnalysisError } from "../services/analysisErrors";
+import { ApiErrorResponse, ERROR_STATUS } from "../services/identifyApi";
+import { HttpError } from "./httpError";
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+};
+
+/**
+ * Answers with the JSON error body the client turns back into an AnalysisError.
+ */
+export const sendError = (req: IncomingMessage, res: ServerResponse, error: unknown) => {
+  // The client went away (which also aborts the model call); there is no one left to answer.
+  if (res.destroyed) return;
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  let status: number;
+  let body: ApiErrorResponse;
+  if (error instanceof HttpError) {
+    status = error.status;
+    body = { error: { kind: 'unknown', message: error.message } };
+  } else if (error instanceof AnalysisError) {
+    status = ERROR_STATUS[error.kind];
+    body = { error: { kind: error.kind, message: error.message, retryAfterMs: error.retryAfterMs } };
+    if (error.retryAfterMs !== undefined) res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000));
+  } else {
+    console.error(`Unexpected error handling ${req.method} ${req.url}:`, error);
+    status = 500;
+    body = { error: { kind: 'unknown', message: 'The API server failed to handle the request.' } };
+  }
+  // Don't wait for the rest of a video that was refused before it was read.
+  if (!req.complete) res.setHeader('Connection', 'close');
+  sendJson(res, status, body);
+};
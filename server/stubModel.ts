@@ -0,0 +1,99 @@
+import { readFileSync } from "node:fs";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { Part } from "@google/genai";
+
+// A stand-in for the Gemini generateContent endpoint, for running the API server without a key or quota:
+//   npm run stub-model
+//   GEMINI_BASE_URL=http://localhost:8788 GEMINI_API_KEY=stub npm run server
+// STUB_RESPONSE_FILE answers with a JSON detection array from disk, STUB_DELAY_MS adds latency and
+// STUB_ERROR_STATUS fails every request with that status (e.g. 429 or 503) to exercise error handling.
+// Only inline videos are supported, so keep test videos under 20 MB. Sampled-frame requests get the same
+// detection on their first and last frames.
+
+const port = Number(process.env.STUB_MODEL_PORT) || 8788;
+const delayMs = Number(process.env.STUB_DELAY_MS) || 0;
+const errorStatus = Number(process.env.STUB_ERROR_STATUS) || 0;
+const GENERATE_PATH = /\/models\/([^/:]+):generateContent$/;
+
+const FIRST_BOX = { x_min: 0.2, y_min: 0.5, x_max: 0.35, y_max: 0.7 };
+const LAST_BOX = { x_min: 0.25, y_min: 0.5, x_max: 0.4, y_max: 0.7 };
+
+// Shaped like the model's JSON output, not the app's types. `frameCount` switches to frame indices.
+const cannedDetections = (includePrices: boolean, frameCount?: number) => [
+  {
+    name: 'Stub Coffee Mug',
+    description: 'A white ceramic mug on a desk.',
+    boundingBox: FIRST_BOX,
+    ...(includePrices ? { price: '$8 - $12' } : {}),
+    queryTerm: 'stub',
+    confidence: 0.9,
+    ...(frameCount
+      ? {
+        frame: 0,
+        firstFrame: 0,
+        lastFrame: frameCount - 1,
+        track: [{ frame: 0, boundingBox: FIRST_BOX }, { frame: frameCount - 1, boundingBox: LAST_BOX }],
+      }
+      : {
+        timestamp: 1,
+        firstSeen: 0.5,
+        lastSeen: 2,
+        track: [{ timestamp: 0.5, boundingBox: FIRST_BOX }, { timestamp: 2, boundingBox: LAST_BOX }],
+      }),
+  },
+];
+
+// The parts of the REST request body the stub looks at.
+interface GenerateContentBody {
+  contents?: { parts?: Part[] }[];
+  generationConfig?: { responseSchema?: { items?: { required?: string[] } } };
+}
+
+const readJson = async (req: IncomingMessage): Promise<GenerateContentBody> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const describeVideoPart = (part: Part | undefined): string => {
+  const clip = part?.videoMetadata ? ` ${part.videoMetadata.startOffset}-${part.videoMetadata.endOffset}` : '';
+  if (part?.inlineData) return `inline ${part.inlineData.mimeType}, ${Math.round((part.inlineData.data?.length ?? 0) * 0.75 / 1024)} KB${clip}`;
+  if (part?.fileData) return `file ${part.fileData.fileUri}${clip}`;
+  return 'no video';
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const match = req.method === 'POST' ? GENERATE_PATH.exec(new URL(req.url ?? '/', 'http://localhost').pathname) : null;
+  if (!match) {
+    return send(res, 404, { error: { code: 404, status: 'NOT_FOUND', message: `The stub model only serves generateContent, not ${req.method} ${req.url}.` } });
+  }
+  const body = await readJson(req);
+  const [, model] = match;
+  const parts = body.contents?.[0]?.parts ?? [];
+  const required = body.generationConfig?.responseSchema?.items?.required ?? [];
+  const frameCount = required.includes('frame') ? parts.filter(part => part.inlineData?.mimeType?.startsWith('image/')).length : undefined;
+  console.log(`${model}: ${frameCount !== undefined ? `${frameCount} frames` : describeVideoPart(parts.find(part => !part.text))}`);
+
+  if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+  if (errorStatus) {
+    return send(res, errorStatus, { error: { code: errorStatus, status: 'STUB_ERROR', message: `Stub failure (STUB_ERROR_STATUS=${errorStatus}).` } });
+  }
+
+  const text = process.env.STUB_RESPONSE_FILE
+    ? readFileSync(process.env.STUB_RESPONSE_FILE, 'utf8')
+    : JSON.stringify(cannedDetections(required.includes('price'), frameCount));
+  send(res, 200, {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: Math.ceil(text.length / 4), totalTokenCount: 1200 + Math.ceil(text.length / 4) },
+    modelVersion: model,
+  });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => send(res, 400, { error: { code: 400, status: 'INVALID_ARGUMENT', message: String(error) } }));
+}).listen(port, () => console.log(`Stub model listening on http://localhost:${port}`));
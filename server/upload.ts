@@ -0,0 +1,89 @@
+import { createWriteStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { IncomingMessage } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { AnalysisError } from "../services/analysisErrors";
+import { HttpError } from "./httpError";
+
+export interface ReceivedUpload {
+  path: string;
+  size: number;
+  mimeType: string;
+  /** Deletes the temporary file. */
+  remove: () => Promise<void>;
+}
+
+const tooLarge = (maxBytes: number) => new AnalysisError('payload-too-large', {
+  message: `The upload is larger than the server's ${Math.round(maxBytes / 1024 / 1024)} MB limit.`,
+});
+
+/**
+ * Reads a JSON request body of at most `maxBytes`.
+ * @throws An AnalysisError when the body is too large, or an HttpError when it is not JSON.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  if (!(req.headers['content-type'] ?? '').toLowerCase().startsWith('application/json')) {
+    throw new HttpError(415, 'Expected a JSON body.');
+  }
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw tooLarge(maxBytes);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.destroy();
+      throw tooLarge(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+/**
+ * Whether a request carries a body, going by its headers.
+ */
+export const hasBody = (req: IncomingMessage): boolean =>
+  Number(req.headers['content-length'] ?? 0) > 0 || req.headers['transfer-encoding'] !== undefined;
+
+/**
+ * Streams a video request body to a temporary file, never holding more than a chunk in memory.
+ * @throws An AnalysisError when the body is not a video or grows past `maxBytes`.
+ */
+export const receiveUpload = async (req: IncomingMessage, maxBytes: number): Promise<ReceivedUpload> => {
+  const mimeType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (!mimeType.startsWith('video/')) {
+    throw new AnalysisError('unsupported-media', { message: `Expected a video upload, got "${mimeType || 'no content type'}".` });
+  }
+  // Refuse up front when the client says how big the body is; otherwise count while streaming.
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw tooLarge(maxBytes);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'video-upload-'));
+  const path = join(dir, 'video');
+  const remove = () => rm(dir, { recursive: true, force: true });
+  let size = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? tooLarge(maxBytes) : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(req, limit, createWriteStream(path));
+  } catch (error) {
+    await remove();
+    throw error;
+  }
+  return { path, size, mimeType, remove };
+};
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createVideoStore, PreparedVideo } from "./videoStore";
+import { HttpError } from "./httpError";
+
+const prepare = (): Promise<PreparedVideo> => Promise.resolve({ part: { text: 'video' } });
+
+test('forgets the least recently used videos once the store is full', () => {
+  const videos = createVideoStore({ ttlMs: 60_000, maxBytes: 100, maxPerClient: 10 });
+  videos.add('a', 'client 1', 40, prepare);
+  videos.add('b', 'client 2', 40, prepare);
+  videos.get('a', 'client 1');
+  videos.add('c', 'client 3', 40, prepare);
+
+  assert.ok(videos.get('a', 'client 1'));
+  assert.equal(videos.get('b', 'client 2'), undefined);
+  assert.ok(videos.get('c', 'client 3'));
+});
+
+test('keeps at most maxPerClient videos for one client without touching the others', () => {
+  const videos = createVideoStore({ ttlMs: 60_000, maxBytes: 1000, maxPerClient: 2 });
+  videos.add('other', 'client 2', 10, prepare);
+  ['a', 'b', 'c'].forEach(id => videos.add(id, 'client 1', 10, prepare));
+
+  assert.equal(videos.get('a', 'client 1'), undefined);
+  assert.ok(videos.get('b', 'client 1'));
+  assert.ok(videos.get('c', 'client 1'));
+  assert.ok(videos.get('other', 'client 2'));
+});
+
+test('refuses a video id that belongs to another client without preparing anything', () => {
+  const videos = createVideoStore({ ttlMs: 60_000, maxBytes: 1000, maxPerClient: 2 });
+  videos.add('a', 'client 1', 10, prepare);
+  let prepared = false;
+
+  assert.throws(() => videos.add('a', 'client 2', 10, () => {
+    prepared = true;
+    return prepare();
+  }), (error: unknown) => error instanceof HttpError && error.status === 409);
+  assert.equal(prepared, false);
+  assert.ok(videos.get('a', 'client 1'));
+});
+
+test('forgets videos ttlMs after their last use', () => {
+  let time = 0;
+  const videos = createVideoStore({ ttlMs: 1000, maxBytes: 1000, maxPerClient: 2 }, () => time);
+  videos.add('a', 'client 1', 10, prepare);
+  time = 900;
+  assert.ok(videos.get('a', 'client 1'));
+  time = 1800;
+  assert.ok(videos.get('a', 'client 1'));
+  time = 2800;
+  assert.equal(videos.get('a', 'client 1'), undefined);
+});
+
+test('deletes the uploaded copy of a video it forgets', async () => {
+  const removed: string[] = [];
+  const uploaded = (id: string) => () => Promise.resolve({
+    part: { fileData: { fileUri: id, mimeType: 'video/mp4' } },
+    remove: async () => { removed.push(id); },
+  });
+  const videos = createVideoStore({ ttlMs: 60_000, maxBytes: 1000, maxPerClient: 1 });
+  await videos.add('a', 'client 1', 0, uploaded('a'));
+  await videos.add('b', 'client 1', 0, uploaded('b'));
+  await new Promise(resolve => setImmediate(resolve));
+
+  assert.deepEqual(removed, ['a']);
+});
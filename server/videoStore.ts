@@ -0,0 +1,145 @@
+import { readFile } from "node:fs/promises";
+import { GoogleGenAI, Part } from "@google/genai";
+import { MAX_INLINE_VIDEO_BYTES } from "../services/detectionRequest";
+import { waitForProcessedFile } from "./geminiRequest";
+import { classifyGeminiError } from "./geminiErrors";
+import { HttpError } from "./httpError";
+import { ReceivedUpload } from "./upload";
+
+/**
+ * A video ready to be sent to the model.
+ */
+export interface PreparedVideo {
+  part: Part;
+  /** Deletes the copy uploaded to the Files API; absent for inline videos. */
+  remove?: () => Promise<void>;
+}
+
+interface StoredVideo {
+  client: string;
+  video: Promise<PreparedVideo>;
+  /** Memory the video takes up on this server: base64 for inline videos, nothing for uploaded files. */
+  bytes: number;
+  expiresAt: number;
+}
+
+export interface VideoStoreLimits {
+  ttlMs: number;
+  /** The most bytes held across all clients; the least recently used videos are forgotten first. */
+  maxBytes: number;
+  /** The most videos held per client; a client's least recently used video is forgotten first. */
+  maxPerClient: number;
+}
+
+/**
+ * How much memory a prepared upload takes up: inline videos are held as base64, larger ones stay with the Files API.
+ */
+export const heldBytes = (upload: ReceivedUpload): number =>
+  upload.size <= MAX_INLINE_VIDEO_BYTES ? Math.ceil(upload.size / 3) * 4 : 0;
+
+/**
+ * Turns an upload into a part for the model request: inline for small videos, through the Files API otherwise.
+ * The temporary file is deleted either way, and the uploaded copy too when its processing fails or is aborted.
+ */
+export const prepareVideoPart = async (ai: GoogleGenAI, upload: ReceivedUpload, signal?: AbortSignal): Promise<PreparedVideo> => {
+  try {
+    if (upload.size <= MAX_INLINE_VIDEO_BYTES) {
+      const data = await readFile(upload.path);
+      return { part: { inlineData: { mimeType: upload.mimeType, data: data.toString('base64') } } };
+    }
+    const uploaded = await ai.files.upload({ file: upload.path, config: { mimeType: upload.mimeType, abortSignal: signal } });
+    const remove = () => deleteUploadedFile(ai, uploaded.name!);
+    try {
+      return { part: await waitForProcessedFile(ai, uploaded, upload.mimeType, signal), remove };
+    } catch (error) {
+      await remove();
+      throw error;
+    }
+  } catch (error) {
+    throw classifyGeminiError(error);
+  } finally {
+    await upload.remove();
+  }
+};
+
+const deleteUploadedFile = async (ai: GoogleGenAI, name: string) => {
+  try {
+    await ai.files.delete({ name });
+  } catch (error) {
+    // The Files API deletes it on its own after two days.
+    console.warn(`Could not delete uploaded file ${name}:`, error);
+  }
+};
+
+/**
+ * Keeps prepared videos by the client's video id, so the chunks and retries of one analysis send the video once.
+ * Videos are only visible to the client that sent them and are forgotten `ttlMs` after their last use, or earlier
+ * when the store or the client's share of it is full.
+ */
+export const createVideoStore = ({ ttlMs, maxBytes, maxPerClient }: VideoStoreLimits, now: () => number = Date.now) => {
+  // In order of last use, oldest first.
+  const videos = new Map<string, StoredVideo>();
+  let totalBytes = 0;
+
+  const forget = (videoId: string) => {
+    const video = videos.get(videoId);
+    if (!video) return;
+    videos.delete(videoId);
+    totalBytes -= video.bytes;
+    video.video.then(({ remove }) => remove?.(), () => {});
+  };
+
+  const sweep = () => {
+    const time = now();
+    for (const [key, video] of videos) {
+      if (video.expiresAt <= time) forget(key);
+    }
+  };
+
+  /**
+   * Forgets the least recently used videos until one more of `bytes` from `client` fits.
+   */
+  const makeRoom = (client: string, bytes: number) => {
+    const clientIds = [...videos].filter(([, video]) => video.client === client).map(([key]) => key);
+    clientIds.slice(0, Math.max(0, clientIds.length - maxPerClient + 1)).forEach(forget);
+    for (const key of videos.keys()) {
+      if (totalBytes + bytes <= maxBytes) break;
+      forget(key);
+    }
+  };
+
+  return {
+    /**
+     * Starts preparing a video and holds it under `videoId`. Nothing is prepared when the id is refused.
+     * @throws An HttpError when the id belongs to another client's video.
+     */
+    add: (videoId: string, client: string, bytes: number, prepare: () => Promise<PreparedVideo>): Promise<Part> => {
+      sweep();
+      const existing = videos.get(videoId);
+      if (existing && existing.client !== client) {
+        throw new HttpError(409, 'This video id is already in use; send the video under a new id.');
+      }
+      forget(videoId);
+      makeRoom(client, bytes);
+      const stored = { client, video: prepare(), bytes, expiresAt: now() + ttlMs };
+      videos.set(videoId, stored);
+      totalBytes += bytes;
+      stored.video.catch(() => {
+        if (videos.get(videoId) === stored) forget(videoId);
+      });
+      return stored.video.then(({ part }) => part);
+    },
+    get: (videoId: string, client: string): Promise<Part> | undefined => {
+      sweep();
+      const video = videos.get(videoId);
+      if (!video || video.client !== client) return undefined;
+      video.expiresAt = now() + ttlMs;
+      // Move it to the back of the eviction order.
+      videos.delete(videoId);
+      videos.set(videoId, video);
+      return video.video.then(({ part }) => part);
+    },
+  };
+};
+
+export type VideoStore = ReturnType<typeof createVideoStore>;
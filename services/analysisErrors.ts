@@ -0,0 +1,106 @@
+import { AnalysisErrorKind } from "../types";
+import { isAbortError } from "../utils/abort";
+
+interface ErrorCopy {
+  message: string;
+  hint: string;
+  retryable: boolean;
+}
+
+const ERROR_COPY: Record<AnalysisErrorKind, ErrorCopy> = {
+  'auth': {
+    message: 'The Gemini API key is missing or was rejected.',
+    hint: 'Set GEMINI_API_KEY in .env.local to a valid key and restart the API server (npm run server).',
+    retryable: false,
+  },
+  'quota': {
+    message: 'The Gemini API quota or rate limit was exceeded.',
+    hint: 'Wait a minute and try again, lower the chunk concurrency, or check the quota for your key in Google AI Studio.',
+    retryable: true,
+  },
+  'payload-too-large': {
+    message: 'The video is too large to send to Gemini.',
+    hint: 'Trim or compress the video, or analyze a shorter part of it.',
+    retryable: false,
+  },
+  'unsupported-media': {
+    message: 'Gemini could not read this video format.',
+    hint: 'Convert the video to MP4 (H.264) or WebM and try again.',
+    retryable: false,
+  },
+  'safety': {
+    message: 'Gemini blocked the request or response for safety reasons.',
+    hint: 'Try different query terms, or a video without sensitive content.',
+    retryable: false,
+  },
+  'malformed-response': {
+    message: 'Gemini returned a response that could not be used.',
+    hint: 'Try again; if it keeps happening, analyze a shorter video or fewer objects at once.',
+    retryable: true,
+  },
+  'network': {
+    message: 'Could not reach the API server or the Gemini API.',
+    hint: 'Check that the API server is running (npm run server), then your internet connection, VPN or proxy.',
+    retryable: true,
+  },
+  'unavailable': {
+    message: 'The Gemini API is temporarily unavailable or overloaded.',
+    hint: 'Try again in a few minutes.',
+    retryable: true,
+  },
+  'unknown': {
+    message: 'Failed to identify objects in the video.',
+    hint: 'Check the browser console for details.',
+    retryable: false,
+  },
+};
+
+/**
+ * A failed analysis, classified so the UI can explain it and the retry loop can decide whether to try again.
+ */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly hint: string;
+  readonly retryable: boolean;
+  /** How long the API asked us to wait before retrying, if it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AnalysisErrorKind, options: { message?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(options.message ?? ERROR_COPY[kind].message, { cause: options.cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.hint = ERROR_COPY[kind].hint;
+    this.retryable = ERROR_COPY[kind].retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Converts anything thrown during an analysis into an AnalysisError. Abort errors are returned unchanged
+ * so cancellation is never mistaken for a failure.
+ */
+export const toAnalysisError = (error: unknown): unknown => {
+  if (error instanceof AnalysisError || isAbortError(error)) {
+    return error;
+  }
+  // fetch rejects with a TypeError when the request never reached the server.
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new AnalysisError('network', { cause: error });
+  }
+  return new AnalysisError('unknown', { cause: error });
+};
+
+export interface ErrorNotice {
+  message: string;
+  hint?: string;
+}
+
+/**
+ * The text shown in the error banner for anything thrown by an analysis.
+ */
+export const describeError = (error: unknown, fallback = 'An unknown error occurred during object identification.'): ErrorNotice => {
+  if (error instanceof AnalysisError) {
+    return { message: error.message, hint: error.hint };
+  }
+  return { message: error instanceof Error ? error.message : fallback };
+};
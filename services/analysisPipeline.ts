@@ -0,0 +1,53 @@
+import { DetectionProvider, IdentifiedObject, RunInfo, TokenUsage, ValidationIssue } from "../types";
+import { ChunkedAnalysisOptions, identifyObjectsInChunks } from "./chunkedAnalysis";
+import { enrichPrices } from "./pricing";
+import { resolveQueryTerm } from "../utils/queryTerms";
+
+export interface AnalyzedVideo {
+  objects: IdentifiedObject[];
+  rawJson: string;
+  issues: ValidationIssue[];
+  usage?: TokenUsage;
+  run?: RunInfo;
+  /** Set when the result came from the result cache; see IdentifyResult. */
+  cachedAt?: string;
+}
+
+export interface AnalyzeVideoOptions extends ChunkedAnalysisOptions {
+  /** Units of each currency per US dollar, for reading prices; see `loadCurrencySettings`. */
+  rates?: Record<string, number>;
+}
+
+/**
+ * Runs a provider over a whole video, resolves each detection's query term and, if requested, parses prices.
+ * Frames are not extracted here; see `attachFrames`.
+ */
+export const analyzeVideo = async (
+  provider: DetectionProvider,
+  videoFile: File,
+  targetObjects: string[],
+  { rates, ...options }: AnalyzeVideoOptions = {},
+): Promise<AnalyzedVideo> => {
+  const { objects, rawJson, issues, usage, run, cachedAt } = await identifyObjectsInChunks(provider, videoFile, targetObjects, options);
+  // Prices are opt-in; drop any a provider returned anyway so results don't depend on the backend.
+  const priced = options.includePrices
+    ? enrichPrices(objects, rates)
+    : objects.map(obj => ({ ...obj, price: '', priceRange: undefined }));
+  return {
+    objects: priced.map(obj => ({
+      ...obj,
+      id: crypto.randomUUID(),
+      origin: 'model' as const,
+      edited: false,
+      frameUrl: null,
+      imageUrl: null,
+      thumbnailUrl: null,
+      queryTerm: resolveQueryTerm(obj, targetObjects, options.query),
+    })),
+    rawJson,
+    issues,
+    usage,
+    run,
+    cachedAt,
+  };
+};
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IdentifyResult, VideoObject } from "../types";
+import { clampRange, mergeChunkResults, offsetChunkObjects, planChunks } from "./chunkedAnalysis";
+
+const detection = (name: string, timestamp: number): VideoObject => ({
+  name,
+  description: '',
+  timestamp,
+  boundingBox: { x_min: 0.1, y_min: 0.1, x_max: 0.2, y_max: 0.2 },
+  price: '',
+  firstSeen: timestamp,
+  lastSeen: timestamp + 1,
+  track: [{ timestamp, boundingBox: { x_min: 0.1, y_min: 0.1, x_max: 0.2, y_max: 0.2 } }],
+});
+
+const result = (objects: VideoObject[], changes: Partial<IdentifyResult> = {}): IdentifyResult => ({
+  objects, rawJson: '[]', issues: [], ...changes,
+});
+
+test('splits a video into windows of at most chunkSeconds', () => {
+  assert.deepEqual(planChunks(150, 60), [
+    { index: 0, start: 0, end: 60 },
+    { index: 1, start: 60, end: 120 },
+    { index: 2, start: 120, end: 150 },
+  ]);
+  assert.deepEqual(planChunks(45, 60), [{ index: 0, start: 0, end: 45 }]);
+  assert.deepEqual(planChunks(Infinity, 60), [{ index: 0, start: 0, end: 0 }]);
+});
+
+test('plans only the requested range', () => {
+  assert.deepEqual(planChunks(600, 60, { start: 100, end: 190 }), [
+    { index: 0, start: 100, end: 160 },
+    { index: 1, start: 160, end: 190 },
+  ]);
+});
+
+test('clamps a range to the video and drops one that covers all of it', () => {
+  assert.deepEqual(clampRange({ start: -5, end: 30 }, 60), { start: 0, end: 30 });
+  assert.deepEqual(clampRange({ start: 50, end: 90 }, 60), { start: 50, end: 60 });
+  assert.equal(clampRange({ start: 0, end: 90 }, 60), undefined);
+});
+
+test('shifts chunk-relative times into video time, clamped to the chunk', () => {
+  const [shifted] = offsetChunkObjects([detection('mug', 5)], { index: 1, start: 60, end: 65.5 });
+  assert.equal(shifted.timestamp, 65);
+  assert.equal(shifted.lastSeen, 65.5);
+  assert.deepEqual(shifted.track.map(point => point.timestamp), [65]);
+});
+
+test('merges chunk results in time order, tagging issues and adding up usage', () => {
+  const merged = mergeChunkResults([
+    result([detection('cup', 70), detection('mug', 10)], {
+      issues: [{ index: 0, action: 'corrected', reason: 'fixed' }],
+      usage: { promptTokens: 100, outputTokens: 10, costUsd: 0.5 },
+    }),
+    result([detection('mug', 40)], {
+      issues: [{ index: 2, action: 'rejected', reason: 'bad' }],
+      usage: { promptTokens: 50, outputTokens: 5, costUsd: 0.25 },
+    }),
+  ]);
+
+  assert.deepEqual(merged.objects.map(obj => obj.timestamp), [10, 40, 70]);
+  assert.deepEqual(merged.issues.map(issue => issue.chunk), [0, 1]);
+  assert.deepEqual(merged.usage, { promptTokens: 150, outputTokens: 15, costUsd: 0.75 });
+});
+
+test('only counts a merged result as cached when every chunk was', () => {
+  const cached = (cachedAt: string) => result([], { cachedAt });
+  assert.equal(mergeChunkResults([cached('2026-02-01T00:00:00Z'), cached('2026-01-01T00:00:00Z')]).cachedAt, '2026-01-01T00:00:00Z');
+  assert.equal(mergeChunkResults([cached('2026-02-01T00:00:00Z'), result([])]).cachedAt, undefined);
+});
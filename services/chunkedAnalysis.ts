@@ -0,0 +1,160 @@
+import { ChunkProgress, DetectionProvider, IdentifyOptions, IdentifyResult, TimeWindow, TokenUsage, VideoChunk, VideoObject } from "../types";
+import { shiftObjectTime } from "./tracks";
+import { getVideoMetadata } from "./videoMetadata";
+import { clampToDuration } from "./responseValidation";
+import { sumUsage } from "./usage";
+import { runWithConcurrency } from "../utils/concurrency";
+
+export const DEFAULT_CHUNK_SECONDS = 60;
+export const DEFAULT_CHUNK_CONCURRENCY = 2;
+
+/**
+ * The query, model settings, `mode`, `sampling`, `includePrices`, `refreshCache`, `signal`, `onStage`, `onRetry` and `retryPolicy`
+ * are passed to every provider call. Aborting also prevents further chunks from starting.
+ */
+export interface ChunkedAnalysisOptions extends Pick<
+  IdentifyOptions,
+  | 'query' | 'includePrices' | 'onStage' | 'onRetry' | 'retryPolicy' | 'signal'
+  | 'model' | 'temperature' | 'mediaResolution' | 'template' | 'mode' | 'sampling' | 'refreshCache'
+> {
+  chunkSeconds?: number;
+  concurrency?: number;
+  /**
+   * Only analyze this part of the video. Providers that can clip are only sent the range; for the others the
+   * whole video is analyzed and detections outside the range are dropped. Timestamps stay on the full video's timeline.
+   */
+  range?: TimeWindow;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+/**
+ * Limits a range to the video, or returns undefined when it covers the whole video anyway.
+ */
+export const clampRange = (range: TimeWindow | undefined, duration: number): TimeWindow | undefined => {
+  if (!range || !Number.isFinite(duration)) return range;
+  const start = Math.max(0, range.start);
+  const end = Math.min(duration, range.end);
+  return start <= 0 && end >= duration ? undefined : { start, end: Math.max(start, end) };
+};
+
+/**
+ * Splits a video of the given duration, or the given range of it, into consecutive windows of at most `chunkSeconds`.
+ */
+export const planChunks = (duration: number, chunkSeconds: number, range?: TimeWindow): VideoChunk[] => {
+  const from = range?.start ?? 0;
+  const to = range?.end ?? duration;
+  if (!Number.isFinite(to) || to - from <= chunkSeconds) {
+    return [{ index: 0, start: from, end: Number.isFinite(to) ? to : from }];
+  }
+  const chunks: VideoChunk[] = [];
+  for (let start = from, index = 0; start < to; start += chunkSeconds, index++) {
+    chunks.push({ index, start, end: Math.min(start + chunkSeconds, to) });
+  }
+  return chunks;
+};
+
+/**
+ * Shifts chunk-relative timestamps back into global video time, clamped to the chunk's window.
+ */
+export const offsetChunkObjects = (objects: VideoObject[], chunk: VideoChunk): VideoObject[] => {
+  return objects.map(obj => shiftObjectTime(obj, chunk.start, chunk.start, chunk.end));
+};
+
+/**
+ * Combines per-chunk results (already in global time) into a single result ordered by timestamp.
+ * Validation issues are tagged with the chunk they came from. The merged result only counts as cached,
+ * dated by its oldest chunk, when every chunk came from the cache. Sampled frame counts are added up.
+ */
+export const mergeChunkResults = (results: IdentifyResult[]): IdentifyResult => {
+  const objects = results
+    .flatMap(result => result.objects)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const issues = results.flatMap((result, chunk) => result.issues.map(issue => ({ ...issue, chunk })));
+  const run = results.find(result => result.run)?.run;
+  const frameCount = results.reduce((total, result) => total + (result.run?.frameCount ?? 0), 0);
+  return {
+    objects,
+    rawJson: JSON.stringify(objects, null, 2),
+    issues,
+    usage: sumUsage(results.map(result => result.usage)),
+    run: run && run.mode === 'frames' ? { ...run, frameCount } : run,
+    cachedAt: results.every(result => result.cachedAt)
+      ? results.map(result => result.cachedAt!).sort()[0]
+      : undefined,
+  };
+};
+
+/**
+ * Estimates a chunked run's usage from the video's duration, or returns undefined if the provider isn't billed.
+ * A range only lowers the estimate for providers that can clip.
+ */
+export const estimateChunkedUsage = (
+  provider: DetectionProvider,
+  duration: number,
+  targetObjects: string[],
+  options?: Pick<IdentifyOptions, 'model' | 'mediaResolution' | 'mode' | 'sampling'> & Pick<ChunkedAnalysisOptions, 'range'>,
+  chunkSeconds = DEFAULT_CHUNK_SECONDS,
+): TokenUsage | undefined => {
+  const range = provider.supportsClipping ? clampRange(options?.range, duration) : undefined;
+  const calls = provider.supportsClipping ? planChunks(duration, chunkSeconds, range).length : 1;
+  const analyzed = range ? range.end - range.start : duration;
+  return provider.estimateUsage?.(analyzed, targetObjects, calls, options);
+};
+
+/**
+ * Analyzes a video window by window and merges the detections into one result.
+ * Providers that cannot analyze a clip are called once for the whole video.
+ */
+export const identifyObjectsInChunks = async (
+  provider: DetectionProvider,
+  videoFile: File,
+  targetObjects: string[],
+  { chunkSeconds = DEFAULT_CHUNK_SECONDS, concurrency = DEFAULT_CHUNK_CONCURRENCY, onProgress, range: requestedRange, ...callOptions }: ChunkedAnalysisOptions = {},
+): Promise<IdentifyResult> => {
+  const metadata = await getVideoMetadata(videoFile).catch(() => null);
+  const frameSize = metadata && metadata.width && metadata.height
+    ? { width: metadata.width, height: metadata.height }
+    : undefined;
+  const range = metadata ? clampRange(requestedRange, metadata.duration) : requestedRange;
+  const chunks = provider.supportsClipping && metadata
+    ? planChunks(metadata.duration, chunkSeconds, range)
+    : [];
+
+  const { signal } = callOptions;
+  signal?.throwIfAborted();
+
+  let result: IdentifyResult;
+  // A range is always sent as a clip, even when it fits in one chunk.
+  if (chunks.length === 0 || (chunks.length === 1 && !range)) {
+    onProgress?.({ completedChunks: 0, totalChunks: 1 });
+    result = await provider.identify(videoFile, targetObjects, { ...callOptions, frameSize });
+    onProgress?.({ completedChunks: 1, totalChunks: 1 });
+  } else {
+    let completedChunks = 0;
+    onProgress?.({ completedChunks, totalChunks: chunks.length });
+
+    const results = await runWithConcurrency(chunks, concurrency, async (chunk, _index, chunkSignal) => {
+      const chunkResult = await provider.identify(videoFile, targetObjects, { ...callOptions, clip: chunk, frameSize, signal: chunkSignal });
+      // Another chunk may have failed while this one was finishing.
+      chunkSignal.throwIfAborted();
+      completedChunks++;
+      onProgress?.({ completedChunks, totalChunks: chunks.length });
+      return { ...chunkResult, objects: offsetChunkObjects(chunkResult.objects, chunk) };
+    }, signal);
+    result = mergeChunkResults(results);
+  }
+
+  if (range && chunks.length === 0) {
+    result = {
+      ...result,
+      objects: result.objects
+        .filter(obj => obj.timestamp >= range.start && obj.timestamp <= range.end)
+        .map(obj => shiftObjectTime(obj, 0, range.start, range.end)),
+    };
+  }
+  if (!metadata) {
+    return result;
+  }
+  const clamped = clampToDuration(result.objects, metadata.duration);
+  return { ...result, objects: clamped.objects, issues: [...result.issues, ...clamped.issues] };
+};
@@ -0,0 +1,20 @@
+import { DetectionProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { replayProvider } from "./replayProvider";
+
+export const detectionProviders: DetectionProvider[] = [geminiProvider, mockProvider, replayProvider];
+
+/**
+ * The provider used on startup. Set DETECTION_PROVIDER in .env.local (e.g. "mock" or "replay") to override.
+ */
+export const defaultProviderId: string =
+  detectionProviders.find(p => p.id === process.env.DETECTION_PROVIDER)?.id ?? geminiProvider.id;
+
+export const getDetectionProvider = (id: string): DetectionProvider => {
+  const provider = detectionProviders.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown detection provider "${id}".`);
+  }
+  return provider;
+};
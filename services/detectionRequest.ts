@@ -0,0 +1,22 @@
+import { IdentifyOptions } from "../types";
+
+// The parts of the model request the app and the API server both need. Nothing here imports the Gemini SDK,
+// which only the server loads.
+
+// Videos larger than this are uploaded through the Files API instead of being sent inline.
+export const MAX_INLINE_VIDEO_BYTES = 20 * 1024 * 1024;
+// Bump whenever the prompt or the response schema changes, so results cached for the old prompt are not reused.
+export const PROMPT_VERSION = 2;
+// Each request's frames share Gemini's inline request limit, and more frames add little beyond this.
+export const MAX_FRAMES_PER_REQUEST = 200;
+// Base64 image data all of a request's frames may add up to: under Gemini's 20 MB inline request limit, with
+// room for the prompt. The app shrinks frames to fit and the API server refuses anything larger.
+export const MAX_FRAME_DATA_BYTES = 16 * 1024 * 1024;
+
+/**
+ * The options that shape the model request, i.e. everything in IdentifyOptions except callbacks and the signal.
+ */
+export type DetectionRequestOptions = Pick<
+  IdentifyOptions,
+  'clip' | 'frameSize' | 'includePrices' | 'query' | 'model' | 'temperature' | 'mediaResolution' | 'template'
+>;
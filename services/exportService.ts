@@ -0,0 +1,211 @@
+import { IdentifiedObject } from "../types";
+import { createZip, ZipEntry } from "../utils/zip";
+import { baseName, dataUrlToBytes } from "../utils/download";
+
+export type ExportFormat = 'json' | 'csv' | 'coco' | 'webvtt';
+
+interface ExportContext {
+  videoName: string;
+  targetObjects: string[];
+}
+
+interface FrameImage {
+  id: number;
+  fileName: string;
+  timestamp: number;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+// Cues for single-instant detections are stretched to this length so players can show them.
+const MIN_CUE_SECONDS = 1;
+
+const encoder = new TextEncoder();
+
+/**
+ * Builds the normalized JSON export: one entry per detection with its track and matched query term.
+ */
+export const toJsonExport = (objects: IdentifiedObject[], { videoName, targetObjects }: ExportContext): string => {
+  return JSON.stringify({
+    video: videoName,
+    query: targetObjects,
+    exportedAt: new Date().toISOString(),
+    detections: objects.map(({ id, imageUrl, frameUrl, thumbnailUrl, ...detection }) => detection),
+  }, null, 2);
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (objects: IdentifiedObject[]): string => {
+  const header = ['name', 'description', 'timestamp', 'x_min', 'y_min', 'x_max', 'y_max', 'price', 'price_min', 'price_max', 'currency', 'confidence'];
+  const rows = objects.map(obj => [
+    obj.name,
+    obj.description,
+    obj.timestamp,
+    obj.boundingBox.x_min,
+    obj.boundingBox.y_min,
+    obj.boundingBox.x_max,
+    obj.boundingBox.y_max,
+    obj.price,
+    obj.priceRange?.min ?? '',
+    obj.priceRange?.max ?? '',
+    obj.priceRange?.currency ?? '',
+    obj.confidence ?? '',
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const toVttTime = (seconds: number): string => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * Builds a WebVTT track with one cue per detection spanning its visible range.
+ */
+export const toWebVtt = (objects: IdentifiedObject[]): string => {
+  const cues = [...objects]
+    .sort((a, b) => a.firstSeen - b.firstSeen)
+    .map((obj, index) => {
+      const end = Math.max(obj.lastSeen, obj.firstSeen + MIN_CUE_SECONDS);
+      const details = [obj.queryTerm, obj.price].filter(Boolean).join(' · ');
+      return `${index + 1}\n${toVttTime(obj.firstSeen)} --> ${toVttTime(end)}\n${obj.name}${details ? ` (${details})` : ''}`;
+    });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+const getImageSize = (dataUrl: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Failed to load frame for export.'));
+    img.src = dataUrl;
+  });
+};
+
+/**
+ * Collects the unannotated frames behind the detections, one image per distinct timestamp.
+ */
+const collectFrames = async (objects: IdentifiedObject[], videoName: string): Promise<Map<number, FrameImage>> => {
+  const frames = new Map<number, FrameImage>();
+  for (const obj of objects) {
+    if (!obj.frameUrl || frames.has(obj.timestamp)) continue;
+    const { width, height } = await getImageSize(obj.frameUrl);
+    const id = frames.size + 1;
+    frames.set(obj.timestamp, {
+      id,
+      fileName: `${baseName(videoName)}_${String(id).padStart(4, '0')}_${obj.timestamp.toFixed(2)}s.jpg`,
+      timestamp: obj.timestamp,
+      width,
+      height,
+      bytes: dataUrlToBytes(obj.frameUrl),
+    });
+  }
+  return frames;
+};
+
+/**
+ * Builds a COCO-style annotation file. Boxes are converted to absolute [x, y, width, height] pixels,
+ * so only detections whose frame has been extracted are included.
+ */
+const toCoco = (objects: IdentifiedObject[], frames: Map<number, FrameImage>, { videoName, targetObjects }: ExportContext): string => {
+  const categories = targetObjects.map((term, index) => ({ id: index + 1, name: term, supercategory: 'object' }));
+  const categoryId = (term: string) => (targetObjects.indexOf(term) + 1) || 1;
+
+  const annotations = objects.flatMap((obj, index) => {
+    const frame = frames.get(obj.timestamp);
+    if (!frame) return [];
+    const x = obj.boundingBox.x_min * frame.width;
+    const y = obj.boundingBox.y_min * frame.height;
+    const width = (obj.boundingBox.x_max - obj.boundingBox.x_min) * frame.width;
+    const height = (obj.boundingBox.y_max - obj.boundingBox.y_min) * frame.height;
+    return [{
+      id: index + 1,
+      image_id: frame.id,
+      category_id: categoryId(obj.queryTerm),
+      bbox: [x, y, width, height].map(n => Math.round(n * 100) / 100),
+      area: Math.round(width * height),
+      iscrowd: 0,
+      attributes: { name: obj.name, description: obj.description, price: obj.price, timestamp: obj.timestamp },
+    }];
+  });
+
+  return JSON.stringify({
+    info: { description: `Detections for ${videoName}`, date_created: new Date().toISOString() },
+    images: [...frames.values()].map(frame => ({
+      id: frame.id,
+      file_name: `images/${frame.fileName}`,
+      width: frame.width,
+      height: frame.height,
+      timestamp: frame.timestamp,
+    })),
+    annotations,
+    categories,
+  }, null, 2);
+};
+
+const imageEntries = (frames: Map<number, FrameImage>): ZipEntry[] => {
+  return [...frames.values()].map(frame => ({ name: `images/${frame.fileName}`, data: frame.bytes }));
+};
+
+/**
+ * Produces a downloadable file for the chosen format. COCO exports carry the extracted frames and are
+ * bundled as a ZIP; passing `includeImages` bundles the frames with the other formats as well.
+ */
+export const buildExport = async (
+  format: ExportFormat,
+  objects: IdentifiedObject[],
+  context: ExportContext,
+  includeImages = false,
+): Promise<{ blob: Blob; fileName: string }> => {
+  const name = baseName(context.videoName);
+
+  let content: string;
+  let fileName: string;
+  let mimeType: string;
+  switch (format) {
+    case 'json':
+      content = toJsonExport(objects, context);
+      fileName = `${name}.detections.json`;
+      mimeType = 'application/json';
+      break;
+    case 'csv':
+      content = toCsv(objects);
+      fileName = `${name}.detections.csv`;
+      mimeType = 'text/csv';
+      break;
+    case 'webvtt':
+      content = toWebVtt(objects);
+      fileName = `${name}.detections.vtt`;
+      mimeType = 'text/vtt';
+      break;
+    case 'coco': {
+      const frames = await collectFrames(objects, context.videoName);
+      return {
+        blob: createZip([
+          { name: 'annotations.json', data: encoder.encode(toCoco(objects, frames, context)) },
+          ...imageEntries(frames),
+        ]),
+        fileName: `${name}.coco.zip`,
+      };
+    }
+  }
+
+  if (!includeImages) {
+    return { blob: new Blob([content], { type: mimeType }), fileName };
+  }
+
+  const frames = await collectFrames(objects, context.videoName);
+  return {
+    blob: createZip([{ name: fileName, data: encoder.encode(content) }, ...imageEntries(frames)]),
+    fileName: `${name}.${format}.zip`,
+  };
+};
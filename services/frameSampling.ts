@@ -0,0 +1,167 @@
+import { FrameSamplingSettings, SampledFrame, TimeWindow } from "../types";
+import { extractScaledFrame } from "./frameService";
+import { MAX_FRAME_DATA_BYTES, MAX_FRAMES_PER_REQUEST } from "./detectionRequest";
+
+const SETTINGS_KEY = 'video-object-identifier:frame-sampling';
+const FRAME_QUALITY = 0.8;
+// Scene detection compares tiny grayscale copies of the frames.
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+// Mean absolute difference, on a 0-1 scale, above which a frame counts as a new scene.
+const SCENE_CHANGE_THRESHOLD = 0.08;
+// Scene detection decodes every candidate (at signature size), so long videos are checked less often than the interval asks.
+const MAX_SCENE_CANDIDATES = 600;
+
+export const MIN_SAMPLING_INTERVAL = 0.1;
+export const MIN_FRAME_DIMENSION = 128;
+export const MAX_FRAME_DIMENSION = 2048;
+
+export const DEFAULT_FRAME_SAMPLING: FrameSamplingSettings = {
+  strategy: 'interval',
+  intervalSeconds: 1,
+  maxFrames: 60,
+  maxDimension: 512,
+};
+
+export const sanitizeFrameSampling = (value: unknown): FrameSamplingSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<FrameSamplingSettings>;
+  const inRange = (n: unknown, min: number, max: number, fallback: number) =>
+    (typeof n === 'number' && Number.isFinite(n) && n >= min && n <= max ? n : fallback);
+  return {
+    strategy: stored.strategy === 'scene' ? 'scene' : 'interval',
+    intervalSeconds: inRange(stored.intervalSeconds, MIN_SAMPLING_INTERVAL, Infinity, DEFAULT_FRAME_SAMPLING.intervalSeconds),
+    maxFrames: Math.round(inRange(stored.maxFrames, 1, MAX_FRAMES_PER_REQUEST, DEFAULT_FRAME_SAMPLING.maxFrames)),
+    maxDimension: Math.round(inRange(stored.maxDimension, MIN_FRAME_DIMENSION, MAX_FRAME_DIMENSION, DEFAULT_FRAME_SAMPLING.maxDimension)),
+  };
+};
+
+export const loadFrameSampling = (): FrameSamplingSettings => {
+  try {
+    return sanitizeFrameSampling(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}'));
+  } catch {
+    return DEFAULT_FRAME_SAMPLING;
+  }
+};
+
+export const saveFrameSampling = (settings: FrameSamplingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Evenly spaced times across the window, `step` apart, starting at its start.
+ */
+const sampleTimes = ({ start, end }: TimeWindow, step: number): number[] => {
+  const count = Math.max(1, Math.ceil((end - start) / step - 1e-6));
+  return Array.from({ length: count }, (_, i) => start + i * step);
+};
+
+/**
+ * How many frames sampling the window would send; for estimates, before anything is decoded.
+ */
+export const countSampledFrames = (duration: number, settings: FrameSamplingSettings): number =>
+  Math.min(settings.maxFrames, Math.max(1, Math.ceil(duration / settings.intervalSeconds - 1e-6)));
+
+const getContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context.');
+  return ctx;
+};
+
+const shrink = (source: HTMLCanvasElement, scale: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  getContext(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Encodes a frame as base64 JPEG, shrinking it until the data fits in `maxBytes` or its longer side
+ * reaches MIN_FRAME_DIMENSION.
+ */
+const encodeFrame = (canvas: HTMLCanvasElement, maxBytes: number): Omit<SampledFrame, 'timestamp'> => {
+  for (;;) {
+    const dataUrl = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+    const data = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const longerSide = Math.max(canvas.width, canvas.height);
+    if (data.length <= maxBytes || longerSide <= MIN_FRAME_DIMENSION) {
+      return { mimeType: 'image/jpeg', data, width: canvas.width, height: canvas.height };
+    }
+    // JPEG size grows roughly with the pixel count.
+    const scale = Math.max(MIN_FRAME_DIMENSION / longerSide, Math.sqrt(maxBytes / data.length) * 0.9);
+    canvas = shrink(canvas, scale);
+  }
+};
+
+/**
+ * A tiny grayscale copy of the frame, one 0-1 value per pixel.
+ */
+const signature = (frame: HTMLCanvasElement): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = getContext(canvas);
+  ctx.drawImage(frame, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const gray = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return gray;
+};
+
+const difference = (a: Float32Array, b: Float32Array): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+/**
+ * Picks the scene-change times: the first candidate and every one that differs noticeably from the last one
+ * kept, and when there are too many, the biggest changes. Candidates are only decoded at signature size.
+ */
+const sceneChangeTimes = async (videoFile: File, window: TimeWindow, settings: FrameSamplingSettings, signal?: AbortSignal): Promise<number[]> => {
+  const times = sampleTimes(window, Math.max(settings.intervalSeconds, (window.end - window.start) / MAX_SCENE_CANDIDATES));
+  const kept: { timestamp: number; change: number }[] = [];
+  let last: Float32Array | null = null;
+  for (const timestamp of times) {
+    const current = signature(await extractScaledFrame(videoFile, timestamp, SIGNATURE_WIDTH, signal));
+    const change = last ? difference(last, current) : Infinity;
+    if (change >= SCENE_CHANGE_THRESHOLD) {
+      kept.push({ timestamp, change });
+      last = current;
+    }
+  }
+
+  // The first frame has an infinite change, so it is always among the biggest.
+  const chosen = kept.length > settings.maxFrames
+    ? [...kept].sort((a, b) => b.change - a.change).slice(0, settings.maxFrames)
+    : kept;
+  return chosen.map(({ timestamp }) => timestamp).sort((a, b) => a - b);
+};
+
+/**
+ * Samples downsized frames from the part of the video in `window`, decoded with the same machinery as the
+ * detection frames but without filling their cache. Interval sampling spreads the frames out to stay within
+ * `maxFrames`; scene sampling keeps the frames where the picture changes. Frames are shrunk further when
+ * needed so that together they fit in MAX_FRAME_DATA_BYTES.
+ * @returns The frames in time order, with timestamps in seconds from the start of the video.
+ */
+export const sampleFrames = async (
+  videoFile: File,
+  window: TimeWindow,
+  settings: FrameSamplingSettings,
+  signal?: AbortSignal,
+): Promise<SampledFrame[]> => {
+  const times = settings.strategy === 'scene'
+    ? await sceneChangeTimes(videoFile, window, settings, signal)
+    : sampleTimes(window, Math.max(settings.intervalSeconds, (window.end - window.start) / settings.maxFrames));
+  const maxBytesPerFrame = Math.floor(MAX_FRAME_DATA_BYTES / times.length);
+
+  const frames: SampledFrame[] = [];
+  for (const timestamp of times) {
+    const canvas = await extractScaledFrame(videoFile, timestamp, settings.maxDimension, signal);
+    frames.push({ timestamp, ...encodeFrame(canvas, maxBytesPerFrame) });
+  }
+  return frames;
+};
@@ -0,0 +1,395 @@
+import { BoundingBox, IdentifiedObject } from "../types";
+import { abortable, isAbortError } from "../utils/abort";
+import { runWithConcurrency } from "../utils/concurrency";
+
+// A decoder with no work for this long releases its video element and object URL.
+const DECODER_IDLE_MS = 30_000;
+// Frames kept per video, least recently used evicted first.
+const MAX_CACHED_FRAMES = 200;
+// How many detections `attachFrames` has waiting on the decoder at once.
+const FRAME_QUEUE_SIZE = 4;
+// Extra context around the box in thumbnails, as a fraction of the box size.
+const THUMBNAIL_PADDING = 0.15;
+const MAX_THUMBNAIL_SIZE = 400;
+
+interface FrameRequest {
+  time: number;
+  /** Reads the frame off the video once it has seeked. */
+  capture: (video: HTMLVideoElement) => unknown;
+  resolve: (frame: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * One hidden video element per file that serves seeks one at a time, earliest timestamp first.
+ */
+interface Decoder {
+  video: HTMLVideoElement;
+  url: string;
+  ready: Promise<void>;
+  pending: FrameRequest[];
+  busy: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * A frame decode shared by everyone asking for the same timestamp. It is only cancelled once every caller
+ * waiting on it has given up.
+ */
+interface CachedFrame {
+  frame: Promise<string>;
+  /** Callers still waiting; callers without a signal never stop waiting. */
+  waiting: number;
+  controller: AbortController;
+}
+
+const decoders = new Map<File, Decoder>();
+const frameCaches = new WeakMap<File, Map<number, CachedFrame>>();
+
+const disposeDecoder = (videoFile: File, decoder: Decoder) => {
+  if (decoders.get(videoFile) === decoder) {
+    decoders.delete(videoFile);
+  }
+  if (decoder.idleTimer) clearTimeout(decoder.idleTimer);
+  decoder.video.removeAttribute('src');
+  decoder.video.load();
+  URL.revokeObjectURL(decoder.url);
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error(`Video error during frame extraction: ${video.error?.message ?? 'unknown error'}`));
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+};
+
+const getDecoder = (videoFile: File): Decoder => {
+  let decoder = decoders.get(videoFile);
+  if (!decoder) {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(videoFile);
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    const ready = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    decoder = { video, url, ready, pending: [], busy: false, idleTimer: null };
+    decoders.set(videoFile, decoder);
+  }
+  if (decoder.idleTimer) {
+    clearTimeout(decoder.idleTimer);
+    decoder.idleTimer = null;
+  }
+  return decoder;
+};
+
+const captureCurrentFrame = (video: HTMLVideoElement): string => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+/**
+ * Serves queued requests until none are left, always taking the earliest timestamp so the decoder
+ * mostly seeks forward.
+ */
+const drainDecoder = async (videoFile: File, decoder: Decoder) => {
+  if (decoder.busy) return;
+  decoder.busy = true;
+  try {
+    await decoder.ready;
+    while (decoder.pending.length > 0) {
+      decoder.pending.sort((a, b) => a.time - b.time);
+      const request = decoder.pending.shift()!;
+      try {
+        const { video } = decoder;
+        const target = Math.min(Math.max(0, request.time), video.duration || 0);
+        // Setting currentTime to its current value doesn't fire `seeked`.
+        if (Math.abs(video.currentTime - target) > 1e-3) {
+          const seeked = waitForEvent(video, 'seeked');
+          video.currentTime = target;
+          await seeked;
+        }
+        request.resolve(request.capture(video));
+      } catch (e) {
+        request.reject(e);
+      }
+    }
+  } catch (e) {
+    // The video could not be loaded at all; fail everything waiting on it.
+    decoder.pending.splice(0).forEach(request => request.reject(e));
+    disposeDecoder(videoFile, decoder);
+    return;
+  } finally {
+    decoder.busy = false;
+  }
+  decoder.idleTimer = setTimeout(() => disposeDecoder(videoFile, decoder), DECODER_IDLE_MS);
+};
+
+const requestFrame = <T>(videoFile: File, time: number, capture: (video: HTMLVideoElement) => T, signal?: AbortSignal): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const decoder = getDecoder(videoFile);
+    const onAbort = () => {
+      const index = decoder.pending.indexOf(request);
+      if (index !== -1) decoder.pending.splice(index, 1);
+      reject(signal!.reason);
+    };
+    const request: FrameRequest = {
+      time,
+      capture,
+      resolve: (frame) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(frame as T);
+      },
+      reject: (reason) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    decoder.pending.push(request);
+    drainDecoder(videoFile, decoder);
+  });
+};
+
+/**
+ * Extracts a frame from a video file at a specific time. Frames are decoded by one shared element per file
+ * and cached by timestamp, so repeated requests for the same moment are free.
+ * @param videoFile The video file to process.
+ * @param timeInSeconds The timestamp in seconds for the frame to capture.
+ * @param signal Aborting rejects this call with an AbortError. The decode itself is only dropped from the
+ *               queue once no other caller is waiting for the same frame.
+ * @returns A Promise that resolves with a base64 data URL of the captured frame.
+ */
+export const extractFrameFromVideo = (videoFile: File, timeInSeconds: number, signal?: AbortSignal): Promise<string> => {
+  signal?.throwIfAborted();
+  let cache = frameCaches.get(videoFile);
+  if (!cache) {
+    cache = new Map();
+    frameCaches.set(videoFile, cache);
+  }
+  const key = Math.round(timeInSeconds * 1000);
+  let entry = cache.get(key);
+  if (entry) {
+    // Re-insert to mark it as recently used.
+    cache.delete(key);
+    cache.set(key, entry);
+  } else {
+    const controller = new AbortController();
+    const created: CachedFrame = { frame: requestFrame(videoFile, timeInSeconds, captureCurrentFrame, controller.signal), waiting: 0, controller };
+    created.frame.catch(() => {
+      if (cache!.get(key) === created) cache!.delete(key);
+    });
+    cache.set(key, created);
+    if (cache.size > MAX_CACHED_FRAMES) {
+      cache.delete(cache.keys().next().value!);
+    }
+    entry = created;
+  }
+
+  entry.waiting++;
+  if (!signal) return entry.frame;
+  const waiting = entry;
+  const leave = () => {
+    if (--waiting.waiting > 0) return;
+    // Nobody wants it any more: cancel the decode and make sure later callers start a fresh one.
+    if (cache!.get(key) === waiting) cache!.delete(key);
+    waiting.controller.abort();
+  };
+  signal.addEventListener('abort', leave, { once: true });
+  const frame = abortable(waiting.frame, signal);
+  frame.then(() => signal.removeEventListener('abort', leave), () => {});
+  return frame;
+};
+
+/**
+ * Captures the frame at a specific time onto a canvas whose longer side is at most `maxDimension`. Unlike
+ * `extractFrameFromVideo` nothing is cached and no full-size image is encoded, which suits sampling many frames.
+ * @param signal Aborting removes the request from the queue and rejects with an AbortError.
+ */
+export const extractScaledFrame = (videoFile: File, timeInSeconds: number, maxDimension: number, signal?: AbortSignal): Promise<HTMLCanvasElement> =>
+  requestFrame(videoFile, timeInSeconds, video => {
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+    canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context.');
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }, signal);
+
+const loadImage = (imageUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for drawing bounding box.'));
+    img.src = imageUrl;
+  });
+};
+
+/**
+ * Strokes a normalized box onto a canvas of the given size, clamped to its bounds.
+ */
+export const strokeBoundingBox = (ctx: CanvasRenderingContext2D, box: BoundingBox, width: number, height: number, color = 'yellow') => {
+  // Make line width proportional for better visual consistency.
+  const lineWidth = Math.max(2, Math.round(Math.min(width, height) / 250));
+
+  // Sanitize and clamp coordinates to be within the image bounds.
+  const x1 = Math.max(0, box.x_min * width);
+  const y1 = Math.max(0, box.y_min * height);
+  const x2 = Math.min(width, box.x_max * width);
+  const y2 = Math.min(height, box.y_max * height);
+
+  // Only draw the box if it has a valid, positive size.
+  if (x2 - x1 > 0 && y2 - y1 > 0) {
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    ctx.shadowBlur = lineWidth * 2;
+    ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+    ctx.restore();
+  }
+};
+
+/**
+ * Writes a label on a filled tag at the top left of a box stroked with `strokeBoundingBox`, inside the box
+ * when there is no room above it.
+ */
+export const labelBoundingBox = (ctx: CanvasRenderingContext2D, label: string, box: BoundingBox, width: number, height: number, color = 'yellow') => {
+  const fontSize = Math.max(11, Math.round(height / 30));
+  const x = Math.max(0, box.x_min * width);
+  const y = Math.max(0, box.y_min * height);
+  ctx.save();
+  ctx.font = `600 ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+  const labelWidth = ctx.measureText(label).width + 8;
+  const labelHeight = fontSize + 6;
+  const labelY = y - labelHeight >= 0 ? y - labelHeight : y;
+  ctx.fillStyle = color;
+  ctx.fillRect(x, labelY, labelWidth, labelHeight);
+  ctx.fillStyle = '#111827';
+  ctx.fillText(label, x + 4, labelY + fontSize + 1);
+  ctx.restore();
+};
+
+const drawAnnotated = (img: HTMLImageElement, box: BoundingBox): string => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context.');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  ctx.drawImage(img, 0, 0);
+  strokeBoundingBox(ctx, box, img.width, img.height);
+  return canvas.toDataURL('image/jpeg');
+};
+
+/**
+ * Crops the box, with a little padding, out of the frame and scales it to fit a thumbnail.
+ */
+const drawThumbnail = (img: HTMLImageElement, box: BoundingBox): string => {
+  const padX = (box.x_max - box.x_min) * THUMBNAIL_PADDING;
+  const padY = (box.y_max - box.y_min) * THUMBNAIL_PADDING;
+  const sx = Math.max(0, (box.x_min - padX) * img.width);
+  const sy = Math.max(0, (box.y_min - padY) * img.height);
+  const sw = Math.max(1, Math.min(img.width, (box.x_max + padX) * img.width) - sx);
+  const sh = Math.max(1, Math.min(img.height, (box.y_max + padY) * img.height) - sy);
+  const scale = Math.min(1, MAX_THUMBNAIL_SIZE / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context.');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+/**
+ * Draws a bounding box on an image with improved precision.
+ * @param imageUrl The base64 data URL of the image.
+ * @param box The normalized bounding box coordinates.
+ * @returns A Promise that resolves with a new base64 data URL of the image with the box drawn on it.
+ */
+export const drawBoundingBoxOnImage = async (imageUrl: string, box: BoundingBox): Promise<string> => {
+  return drawAnnotated(await loadImage(imageUrl), box);
+};
+
+/**
+ * Produces the annotated full frame and the cropped thumbnail for a detection from its raw frame.
+ */
+const renderFrameImages = async (frameUrl: string, box: BoundingBox) => {
+  const img = await loadImage(frameUrl);
+  return { imageUrl: drawAnnotated(img, box), thumbnailUrl: drawThumbnail(img, box) };
+};
+
+export interface AttachFramesOptions {
+  /** Called as each detection's frames become available, with its index in `objects`. */
+  onFrame?: (index: number, obj: IdentifiedObject) => void;
+  /** Called after each detection has been processed, whether or not its frame could be extracted. */
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Extracts and annotates the frame for every detection, a few at a time in timestamp order.
+ * @returns A Promise that resolves with the detections and their frames once all have been processed.
+ *          Detections whose frame could not be extracted are returned unchanged.
+ */
+export const attachFrames = async (
+  videoFile: File,
+  objects: IdentifiedObject[],
+  { onFrame, onProgress, signal }: AttachFramesOptions = {},
+): Promise<IdentifiedObject[]> => {
+  let completed = 0;
+  onProgress?.(completed, objects.length);
+  const order = objects.map((_, index) => index).sort((a, b) => objects[a].timestamp - objects[b].timestamp);
+  const results = [...objects];
+
+  await runWithConcurrency(order, FRAME_QUEUE_SIZE, async (index) => {
+    const obj = objects[index];
+    try {
+      const frameUrl = await extractFrameFromVideo(videoFile, obj.timestamp, signal);
+      results[index] = { ...obj, frameUrl, ...(await renderFrameImages(frameUrl, obj.boundingBox)) };
+      onFrame?.(index, results[index]);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error(`Failed to process frame for ${obj.name}`, e);
+    }
+    onProgress?.(++completed, objects.length);
+  }, signal);
+
+  return results;
+};
+
+/**
+ * Regenerates a single detection's frames after its timestamp or box changed. Without the video,
+ * the box is redrawn on the frame already captured.
+ */
+export const renderDetectionFrames = async (videoFile: File | null, obj: IdentifiedObject): Promise<IdentifiedObject> => {
+  const frameUrl = videoFile ? await extractFrameFromVideo(videoFile, obj.timestamp) : obj.frameUrl;
+  if (!frameUrl) {
+    return obj;
+  }
+  return { ...obj, frameUrl, ...(await renderFrameImages(frameUrl, obj.boundingBox)) };
+};
@@ -1,197 +1,141 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-// --- DEVELOPMENT TOGGLE ---
-// Set to true to use local mock data and bypass the Gemini API.
-// This is useful for offline development, testing UI, and avoiding API errors/costs.
-const USE_MOCK_DATA = false;
-
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      resolve(result.split(',')[1]);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+import { AnalysisErrorKind, DetectionProvider, IdentifyOptions, IdentifyResult } from "../types";
+import { AnalysisError, toAnalysisError } from "./analysisErrors";
+import { withRetry } from "./retryPolicy";
+import { estimateFrameUsage, estimateVideoUsage } from "./usage";
+import { DEFAULT_MODEL_SETTINGS } from "./modelSettings";
+import {
+  IDENTIFY_FRAMES_PATH, IDENTIFY_PATH, IdentifyFramesRequest, IdentifyRequest, isApiErrorResponse, OPTIONS_HEADER,
+  VIDEO_HELD_HEADER, VIDEO_ID_HEADER,
+} from "./identifyApi";
+import { withResultCache } from "./resultCache";
+import { countSampledFrames, DEFAULT_FRAME_SAMPLING, sampleFrames } from "./frameSampling";
+import { getVideoMetadata } from "./videoMetadata";
+import { abortable } from "../utils/abort";
+
+// The server keeps each video under an id we pick, so chunked analysis and retries upload it once.
+const videoIds = new WeakMap<File, string>();
+// Settles once the first upload of a file is answered: true if the server now holds the video.
+const heldVideos = new WeakMap<File, Promise<boolean>>();
+
+const getVideoId = (videoFile: File): string => {
+  let id = videoIds.get(videoFile);
+  if (!id) {
+    id = crypto.randomUUID();
+    videoIds.set(videoFile, id);
+  }
+  return id;
 };
 
-interface BoundingBox {
-  x_min: number;
-  y_min: number;
-  x_max: number;
-  y_max: number;
-}
-
-interface VideoObject {
-  name: string;
-  description: string;
-  timestamp: number;
-  boundingBox: BoundingBox;
-  price: string;
-}
-
-interface IdentifyResult {
-  objects: VideoObject[];
-  rawJson: string;
-}
-
-const getMockData = (targetObjects: string[]): IdentifyResult => {
-    console.warn("Using mock data. To use the real Gemini API, set USE_MOCK_DATA to false in geminiService.ts");
-    const mockObjects: VideoObject[] = [
-        {
-            name: "Mock Glock 17",
-            description: "A standard issue mock handgun.",
-            timestamp: 2.5,
-            boundingBox: { x_min: 0.25, y_min: 0.4, x_max: 0.45, y_max: 0.6 },
-            price: "$500 - $600"
-        },
-        {
-            name: "Mock AR-15",
-            description: "A mock semi-automatic rifle with a scope.",
-            timestamp: 5.1,
-            boundingBox: { x_min: 0.1, y_min: 0.3, x_max: 0.8, y_max: 0.5 },
-            price: "$800 - $1200"
-        },
-        {
-            name: "Mock Shotgun",
-            description: "A mock pump-action shotgun.",
-            timestamp: 8.9,
-            boundingBox: { x_min: 0.3, y_min: 0.6, x_max: 0.9, y_max: 0.8 },
-            price: "$300 - $500"
-        },
-        {
-            name: `Mock ${targetObjects[0] || 'Object'}`,
-            description: "A generic mock item based on your query.",
-            timestamp: 11.2,
-            boundingBox: { x_min: 0.6, y_min: 0.1, x_max: 0.8, y_max: 0.3 },
-            price: "$100 - $200"
-        }
-    ];
-    const rawJson = JSON.stringify(mockObjects, null, 2);
-    return { objects: mockObjects, rawJson };
-};
+const postIdentify = (videoFile: File, request: IdentifyRequest, withVideo: boolean, signal?: AbortSignal): Promise<Response> =>
+  fetch(IDENTIFY_PATH, {
+    method: 'POST',
+    headers: {
+      'Content-Type': videoFile.type || 'application/octet-stream',
+      [OPTIONS_HEADER]: encodeURIComponent(JSON.stringify(request)),
+      [VIDEO_ID_HEADER]: getVideoId(videoFile),
+    },
+    body: withVideo ? videoFile : null,
+    signal,
+  });
 
-export const identifyObjectsInVideo = async (videoFile: File, targetObjects: string[]): Promise<IdentifyResult> => {
-  if (USE_MOCK_DATA) {
-    return getMockData(targetObjects);
+/**
+ * Turns an error response from the API server back into the AnalysisError it reported.
+ */
+const readErrorResponse = async (response: Response): Promise<AnalysisError> => {
+  const body = await response.json().catch(() => null);
+  if (isApiErrorResponse(body)) {
+    const { kind, message, retryAfterMs } = body.error;
+    return new AnalysisError(kind, { message, retryAfterMs });
   }
+  // No JSON error means the server isn't there, e.g. the dev server's proxy could not reach it.
+  const kind: AnalysisErrorKind = response.status >= 500 ? 'network' : 'unknown';
+  return new AnalysisError(kind, { message: `The API server answered ${response.status} ${response.statusText}.`.trim() });
+};
 
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
+/**
+ * Sends the request, leaving the video out once the server holds it. Requests for a file that is still
+ * uploading wait for that upload instead of sending the video a second time.
+ */
+const sendIdentify = async (videoFile: File, request: IdentifyRequest, options: IdentifyOptions): Promise<Response> => {
+  const { onStage, signal } = options;
+  const held = heldVideos.get(videoFile);
+  if (held && await abortable(held, signal)) {
+    onStage?.('waiting');
+    const response = await postIdentify(videoFile, request, false, signal);
+    // 410: the server has forgotten the video (restart or expiry), so send it again.
+    if (response.status !== 410) return response;
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-2.5-flash';
-
-  const base64Video = await fileToBase64(videoFile);
-
-  const prompt = `
-    You are a precision object detection system. Your mission is to perform an exhaustive and meticulous scan of this video to identify EVERY SINGLE UNIQUE INSTANCE of the following items: **${targetObjects.join(', ')}**.
-
-    **CRITICAL DIRECTIVES - PRECISION IS PARAMOUNT:**
-    - **SPECIFIC NAMING:** You MUST identify the object by its most specific name possible. For example, instead of 'pistol', identify it as 'Glock 19 Gen 5'. Instead of 'car', identify it as 'Red 2021 Honda Civic'. Generic names are unacceptable.
-    - **IDENTIFY ALL PHYSICAL INSTANCES:** This is your #1 most important rule. You must identify every single physically separate instance of an object. For example, if you see four guns on a table, even if they are the exact same model, you MUST return four separate entries. Do NOT group or de-duplicate physically separate items. Missing any instance is a failure.
-    - **EXHAUSTIVE SEARCH:** You must find ALL instances of the target objects. Pay extreme attention to objects in the background, those that appear briefly, are partially obscured, or are in cluttered scenes.
-    - **ACCURATE BOUNDING BOXES:** This is non-negotiable. The bounding box coordinates MUST be extremely precise and tightly frame the object.
-    - **HIGH-CONFIDENCE IDENTIFICATION:** Scrutinize details to ensure correct identification. Differentiate between real items and look-alikes. If you are not highly confident, do not include the object.
-    - **REALISTIC PRICING:** Provide a realistic, estimated current market price in USD for each object (e.g., "$450 - $550").
-
-    **Output Format:**
-    You MUST return a valid JSON array of objects. Each object represents ONE unique detected item and must contain these FIVE keys:
-    1. "name": (String) The most specific name possible (e.g., 'Glock 19 Gen 5', not just 'pistol').
-    2. "description": (String) A concise visual description of the object.
-    3. "timestamp": (Number) The precise time in seconds (e.g., 12.75) when the object is best seen.
-    4. "boundingBox": (Object) An object with normalized coordinates ("x_min", "y_min", "x_max", "y_max"). The box MUST be a tight fit around the object's visible pixels with minimal to no background padding.
-    5. "price": (String) A formatted string representing the estimated current market price in USD.
+  onStage?.('uploading');
+  const response = postIdentify(videoFile, request, true, signal);
+  heldVideos.set(videoFile, response.then(r => r.headers.get(VIDEO_HELD_HEADER) === '1', () => false));
+  return response;
+};
 
-    Before responding, perform a final review of your work to ensure you have not missed or incorrectly grouped any items. If no instances of the target objects are detected, you must return an empty JSON array: [].
-  `;
-  
-  const maxRetries = 3;
-  let delay = 1000; // start with 1 second
+/**
+ * Samples frames from the clip, or the whole video, and sends them in place of the video. The frames are
+ * timed from the clip's start, as detections for a clip must be.
+ */
+const sendFrames = async (videoFile: File, request: IdentifyRequest, options: IdentifyOptions): Promise<() => Promise<Response>> => {
+  const { clip, sampling = DEFAULT_FRAME_SAMPLING, onStage, signal } = options;
+  onStage?.('sampling');
+  const window = clip ?? { start: 0, end: (await abortable(getVideoMetadata(videoFile), signal)).duration };
+  const frames = await sampleFrames(videoFile, window, sampling, signal);
+  const body: IdentifyFramesRequest = {
+    ...request,
+    // The frames already cover just the clip.
+    clip: undefined,
+    frames: frames.map(frame => ({ ...frame, timestamp: frame.timestamp - window.start })),
+  };
+  const json = JSON.stringify(body);
+
+  return () => {
+    onStage?.('uploading');
+    return fetch(IDENTIFY_FRAMES_PATH, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: json, signal });
+  };
+};
 
-  for (let i = 0; i < maxRetries; i++) {
+/**
+ * Analyzes a video through the app's API server (server/), which holds the Gemini key and runs the prompt.
+ * In 'frames' mode, sampled frames are sent instead of the video.
+ */
+export const identifyObjectsInVideo = async (videoFile: File, targetObjects: string[], options: IdentifyOptions = {}): Promise<IdentifyResult> => {
+  const { clip, frameSize, includePrices, query, model, temperature, mediaResolution, template, mode, onStage, onRetry, retryPolicy, signal } = options;
+  const request: IdentifyRequest = { targetObjects, clip, frameSize, includePrices, query, model, temperature, mediaResolution, template };
+  // Frames are sampled once; retries resend the same ones.
+  const send = mode === 'frames'
+    ? await sendFrames(videoFile, request, options)
+    : () => sendIdentify(videoFile, request, options);
+
+  return withRetry(async () => {
+    signal?.throwIfAborted();
     try {
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: {
-          parts: [
-            { text: prompt },
-            {
-              inlineData: {
-                mimeType: videoFile.type,
-                data: base64Video,
-              },
-            },
-          ],
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: {
-                  type: Type.STRING,
-                  description: 'The specific model/type of the object (e.g. "Glock 19 Gen 5").',
-                },
-                description: {
-                  type: Type.STRING,
-                  description: 'A brief visual description of the object.',
-                },
-                timestamp: {
-                  type: Type.NUMBER,
-                  description: 'The time in seconds when the object is most clearly visible.',
-                },
-                boundingBox: {
-                  type: Type.OBJECT,
-                  description: 'Critically accurate, normalized coordinates of the bounding box. Must be a tight fit.',
-                  properties: {
-                    x_min: { type: Type.NUMBER },
-                    y_min: { type: Type.NUMBER },
-                    x_max: { type: Type.NUMBER },
-                    y_max: { type: Type.NUMBER },
-                  },
-                  required: ['x_min', 'y_min', 'x_max', 'y_max'],
-                },
-                price: {
-                  type: Type.STRING,
-                  description: 'Estimated market price in USD as a formatted string.',
-                },
-              },
-              required: ['name', 'description', 'timestamp', 'boundingBox', 'price'],
-            },
-          },
-        },
-      });
-
-      const text = response.text.trim();
-      if (!text) {
-        return { objects: [], rawJson: '[]' };
+      const response = await send();
+      onStage?.('validating');
+      if (!response.ok) {
+        throw await readErrorResponse(response);
       }
-      
-      const objects: VideoObject[] = JSON.parse(text);
-      
-      return { objects: objects, rawJson: text };
-    } catch (error: any) {
-      // Check if the error is a 503 Service Unavailable error
-      const isServiceUnavailable = error.message?.includes('503') || error.message?.includes('UNAVAILABLE') || error.message?.includes('overloaded');
-
-      if (isServiceUnavailable && i < maxRetries - 1) {
-        console.warn(`Gemini API is overloaded. Retrying in ${delay / 1000}s... (Attempt ${i + 1}/${maxRetries})`);
-        await new Promise(res => setTimeout(res, delay));
-        delay *= 2; // Exponential backoff
-        continue; // Go to the next iteration of the loop to retry
-      }
-      
-      console.error("Error generating content from Gemini API:", error);
-      throw new Error("Failed to identify objects in the video. The model may have returned an error or invalid data after multiple retries.");
+      return await response.json() as IdentifyResult;
+    } catch (error) {
+      throw toAnalysisError(error);
     }
-  }
+  }, { policy: retryPolicy, signal, onRetry });
+};
 
-  // This line should theoretically not be reached, but it's good practice for type safety.
-  throw new Error("Exhausted all retries to the Gemini API.");
-};
\ No newline at end of file
+export const geminiProvider: DetectionProvider = {
+  id: 'gemini',
+  label: 'Gemini API',
+  description: 'Sends the video to the API server, which analyzes it with Gemini. Run it with npm run server.',
+  supportsClipping: true,
+  supportsFrameSampling: true,
+  identify: withResultCache(identifyObjectsInVideo),
+  estimateUsage: (duration, targetObjects, calls, options) => {
+    const model = options?.model ?? DEFAULT_MODEL_SETTINGS.model;
+    if (options?.mode !== 'frames') {
+      return estimateVideoUsage(model, duration, targetObjects.length, calls, options?.mediaResolution);
+    }
+    const sampling = options.sampling ?? DEFAULT_FRAME_SAMPLING;
+    const frameCount = calls * countSampledFrames(duration / calls, sampling);
+    return estimateFrameUsage(model, frameCount, sampling.maxDimension, targetObjects.length, calls, options.mediaResolution);
+  },
+};
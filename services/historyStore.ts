@@ -0,0 +1,153 @@
+import { IdentifiedObject, RunInfo, StructuredQuery, TokenUsage } from "../types";
+
+const DB_NAME = 'video-object-identifier';
+const DB_VERSION = 1;
+const ANALYSES_STORE = 'analyses';
+
+export interface VideoFileInfo {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+/**
+ * A finished analysis persisted in IndexedDB. The video itself is not stored; it is re-attached on reopen.
+ */
+export interface SavedAnalysis {
+  id: string;
+  title: string;
+  createdAt: string;
+  video: VideoFileInfo;
+  targetObjects: string[];
+  /** The full query; absent for analyses saved before queries were structured. */
+  query?: StructuredQuery;
+  providerId: string;
+  rawJson: string;
+  objects: IdentifiedObject[];
+  /** Tokens and cost of the run. Absent for unbilled providers and analyses saved before usage was tracked. */
+  usage?: TokenUsage;
+  /** The model and prompt template used. Absent for providers without a model and older analyses. */
+  run?: RunInfo;
+}
+
+export type AnalysisSummary = Pick<SavedAnalysis, 'id' | 'title' | 'createdAt' | 'video' | 'targetObjects' | 'usage' | 'run'> & {
+  objectCount: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the analysis history database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the analyses store and resolves with its result.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ANALYSES_STORE, mode);
+    const request = run(tx.objectStore(ANALYSES_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Analysis history transaction failed.'));
+    tx.onabort = () => reject(tx.error ?? new Error('Analysis history transaction was aborted.'));
+  });
+};
+
+export const describeVideoFile = (file: File): VideoFileInfo => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+/**
+ * Whether `file` looks like the video an analysis was run against.
+ */
+export const matchesVideoFile = (info: VideoFileInfo, file: File): boolean => {
+  return info.name === file.name && info.size === file.size;
+};
+
+export const saveAnalysis = async (analysis: Omit<SavedAnalysis, 'id' | 'title' | 'createdAt'>): Promise<SavedAnalysis> => {
+  const record: SavedAnalysis = {
+    ...analysis,
+    id: crypto.randomUUID(),
+    title: `${analysis.video.name} – ${analysis.targetObjects.join(', ')}`,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+export const updateAnalysis = async (analysis: SavedAnalysis): Promise<void> => {
+  await withStore('readwrite', store => store.put(analysis));
+};
+
+export const getAnalysis = async (id: string): Promise<SavedAnalysis | undefined> => {
+  const analysis = await withStore<SavedAnalysis | undefined>('readonly', store => store.get(id));
+  if (!analysis) return undefined;
+  // Records saved before manual corrections existed lack ids and origin flags, and older ones lack thumbnails.
+  return {
+    ...analysis,
+    objects: analysis.objects.map(obj => ({
+      ...obj,
+      id: obj.id ?? crypto.randomUUID(),
+      origin: obj.origin ?? 'model',
+      edited: obj.edited ?? false,
+      thumbnailUrl: obj.thumbnailUrl ?? null,
+    })),
+  };
+};
+
+/**
+ * Lists saved analyses, newest first, without their frames.
+ */
+export const listAnalyses = async (): Promise<AnalysisSummary[]> => {
+  const analyses = await withStore<SavedAnalysis[]>('readonly', store => store.getAll());
+  return analyses
+    .map(({ id, title, createdAt, video, targetObjects, objects, usage, run }) => ({
+      id, title, createdAt, video, targetObjects, usage, run, objectCount: objects.length,
+    }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const renameAnalysis = async (id: string, title: string): Promise<void> => {
+  const analysis = await getAnalysis(id);
+  if (!analysis) {
+    throw new Error('That analysis no longer exists.');
+  }
+  await updateAnalysis({ ...analysis, title });
+};
+
+/**
+ * Replaces the detections of a saved analysis, e.g. after manual corrections. The raw model output is kept as-is.
+ */
+export const updateAnalysisObjects = async (id: string, objects: IdentifiedObject[]): Promise<void> => {
+  const analysis = await getAnalysis(id);
+  if (!analysis) {
+    throw new Error('That analysis no longer exists.');
+  }
+  await updateAnalysis({ ...analysis, objects });
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,48 @@
+import { AnalysisErrorKind, SampledFrame } from "../types";
+import { DetectionRequestOptions } from "./detectionRequest";
+
+// The HTTP contract between the app and the API server (server/), which holds the Gemini key.
+
+export const IDENTIFY_PATH = '/api/identify';
+/** Takes an IdentifyFramesRequest as JSON instead of a video. */
+export const IDENTIFY_FRAMES_PATH = '/api/identify/frames';
+
+/** URI-encoded JSON IdentifyRequest. Options travel in a header so the body can be the raw video stream. */
+export const OPTIONS_HEADER = 'x-identify-options';
+/** Picked by the client per file. A request with this header and no body reuses the video sent earlier. */
+export const VIDEO_ID_HEADER = 'x-video-id';
+/** Set to "1" on a response once the server holds the video, so later requests can leave the body out. */
+export const VIDEO_HELD_HEADER = 'x-video-held';
+
+export interface IdentifyRequest extends DetectionRequestOptions {
+  targetObjects: string[];
+}
+
+export interface IdentifyFramesRequest extends IdentifyRequest {
+  frames: SampledFrame[];
+}
+
+export interface ApiErrorResponse {
+  error: {
+    kind: AnalysisErrorKind;
+    message: string;
+    retryAfterMs?: number;
+  };
+}
+
+export const ERROR_STATUS: Record<AnalysisErrorKind, number> = {
+  'auth': 502,
+  'quota': 429,
+  'payload-too-large': 413,
+  'unsupported-media': 415,
+  'safety': 422,
+  'malformed-response': 502,
+  'network': 502,
+  'unavailable': 503,
+  'unknown': 500,
+};
+
+export const isApiErrorResponse = (value: unknown): value is ApiErrorResponse => {
+  const error = (value as { error?: unknown } | null)?.error as ApiErrorResponse['error'] | undefined;
+  return typeof error?.kind === 'string' && error.kind in ERROR_STATUS && typeof error.message === 'string';
+};
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BoundingBox, IdentifiedObject } from "../types";
+import { boxIoU, clusterDetections, mergeCluster, nameSimilarity } from "./instanceClustering";
+
+const box = (x_min: number, y_min: number, x_max: number, y_max: number): BoundingBox => ({ x_min, y_min, x_max, y_max });
+
+const sighting = (
+  id: string,
+  firstSeen: number,
+  lastSeen: number,
+  changes: Partial<IdentifiedObject> = {},
+): IdentifiedObject => {
+  const boundingBox = changes.boundingBox ?? box(0.1, 0.1, 0.3, 0.3);
+  return {
+    id,
+    name: 'red car',
+    description: '',
+    timestamp: firstSeen,
+    boundingBox,
+    price: '',
+    firstSeen,
+    lastSeen,
+    track: [{ timestamp: firstSeen, boundingBox }, { timestamp: lastSeen, boundingBox }],
+    queryTerm: 'car',
+    origin: 'model',
+    edited: false,
+    frameUrl: null,
+    imageUrl: null,
+    thumbnailUrl: null,
+    ...changes,
+  };
+};
+
+test('scores names by the words they share', () => {
+  assert.equal(nameSimilarity('Red car', 'red CAR'), 1);
+  assert.ok(Math.abs(nameSimilarity('red car', 'car') - 2 / 3) < 1e-9);
+  assert.equal(nameSimilarity('car', ''), 0);
+});
+
+test('measures box overlap as intersection over union', () => {
+  assert.equal(boxIoU(box(0, 0, 0.5, 0.5), box(0, 0, 0.5, 0.5)), 1);
+  assert.equal(boxIoU(box(0, 0, 0.2, 0.2), box(0.5, 0.5, 0.7, 0.7)), 0);
+  assert.ok(Math.abs(boxIoU(box(0, 0, 0.2, 0.2), box(0.1, 0, 0.3, 0.2)) - 1 / 3) < 1e-9);
+});
+
+test('links sightings that are close in time, overlap and share a term', () => {
+  const clusters = clusterDetections([
+    sighting('b', 4, 6),
+    sighting('a', 0, 3),
+    // Too long after the others.
+    sighting('c', 20, 22),
+    // Same time and place, but another query term.
+    sighting('d', 0, 3, { queryTerm: 'truck' }),
+    // Same time, elsewhere in the frame.
+    sighting('e', 0, 3, { boundingBox: box(0.6, 0.6, 0.9, 0.9) }),
+  ]);
+
+  assert.deepEqual(
+    clusters.map(cluster => cluster.occurrences.map(obj => obj.id).sort()),
+    [['a', 'b'], ['d'], ['e'], ['c']],
+  );
+});
+
+test('represents a cluster by its most confident sighting, widened to all of them', () => {
+  const [cluster] = clusterDetections([
+    sighting('a', 0, 3, { confidence: 0.6 }),
+    sighting('b', 4, 6, { confidence: 0.9 }),
+  ]);
+  assert.equal(cluster.representative.id, 'b');
+
+  const merged = mergeCluster(cluster);
+  assert.equal(merged.id, 'b');
+  assert.equal(merged.firstSeen, 0);
+  assert.equal(merged.lastSeen, 6);
+  assert.deepEqual(merged.track.map(point => point.timestamp), [0, 3, 4, 6]);
+});
@@ -0,0 +1,135 @@
+import { BoundingBox, IdentifiedObject, TrackPoint } from "../types";
+import { boxAtTime, toTrackedObject } from "./tracks";
+
+export interface ClusterOptions {
+  /** Dice similarity of the names' words, 0–1, needed to count as the same kind of thing. */
+  minNameSimilarity: number;
+  /** Largest gap in seconds between two sightings' visible ranges. */
+  maxGapSeconds: number;
+  /** Overlap of the boxes where the sightings are closest in time. */
+  minIoU: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  minNameSimilarity: 0.5,
+  maxGapSeconds: 2,
+  minIoU: 0.3,
+};
+
+/**
+ * One physical object and every detection of it. `representative` is the best-scored sighting.
+ */
+export interface DetectionCluster {
+  representative: IdentifiedObject;
+  occurrences: IdentifiedObject[];
+}
+
+const nameTokens = (name: string): Set<string> =>
+  new Set(name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+/**
+ * Dice coefficient of the two names' word sets, so "red car" and "car" score 0.67.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+export const boxIoU = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a.x_max, b.x_max) - Math.max(a.x_min, b.x_min);
+  const height = Math.min(a.y_max, b.y_max) - Math.max(a.y_min, b.y_min);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  const area = (box: BoundingBox) => (box.x_max - box.x_min) * (box.y_max - box.y_min);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+/**
+ * Compares the boxes at the moment the two sightings are closest: the start of their overlap,
+ * or the end of the earlier one and the start of the later one.
+ */
+const overlapAtClosestTime = (a: IdentifiedObject, b: IdentifiedObject): number => {
+  const [earlier, later] = a.firstSeen <= b.firstSeen ? [a, b] : [b, a];
+  const timeA = Math.min(earlier.lastSeen, later.firstSeen);
+  return boxIoU(boxAtTime(earlier.track, timeA), boxAtTime(later.track, later.firstSeen));
+};
+
+const isSameInstance = (a: IdentifiedObject, b: IdentifiedObject, options: ClusterOptions): boolean => {
+  if (a.queryTerm !== b.queryTerm) return false;
+  const gap = Math.max(a.firstSeen, b.firstSeen) - Math.min(a.lastSeen, b.lastSeen);
+  if (gap > options.maxGapSeconds) return false;
+  if (nameSimilarity(a.name, b.name) < options.minNameSimilarity) return false;
+  return overlapAtClosestTime(a, b) >= options.minIoU;
+};
+
+const boxArea = ({ boundingBox: b }: IdentifiedObject) => (b.x_max - b.x_min) * (b.y_max - b.y_min);
+
+/**
+ * Picks the sighting to show for a cluster: highest confidence, then the largest box.
+ * Manual detections have no score and count as certain.
+ */
+const pickRepresentative = (occurrences: IdentifiedObject[]): IdentifiedObject =>
+  occurrences.reduce((best, obj) => {
+    const diff = (obj.confidence ?? 1) - (best.confidence ?? 1);
+    return diff > 0 || (diff === 0 && boxArea(obj) > boxArea(best)) ? obj : best;
+  });
+
+/**
+ * Groups detections that look like repeated sightings of the same object. Sightings are linked when they
+ * share a query term, have similar names, are close in time and their boxes overlap; clusters are the
+ * connected groups of links, in the order of their earliest sighting.
+ */
+export const clusterDetections = (
+  objects: IdentifiedObject[],
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS,
+): DetectionCluster[] => {
+  const sorted = [...objects].sort((a, b) => a.firstSeen - b.firstSeen);
+  const parent = sorted.map((_, index) => index);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  sorted.forEach((a, i) => {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      // Everything after this starts too late to be linked to `a`.
+      if (b.firstSeen - a.lastSeen > options.maxGapSeconds) break;
+      if (isSameInstance(a, b, options)) parent[find(j)] = find(i);
+    }
+  });
+
+  const groups = new Map<number, IdentifiedObject[]>();
+  sorted.forEach((obj, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), obj]);
+  });
+  return [...groups.values()].map(occurrences => ({ representative: pickRepresentative(occurrences), occurrences }));
+};
+
+/**
+ * A single detection standing for the whole cluster: the representative, with its visible range and
+ * track widened to cover every sighting. It keeps the representative's id.
+ */
+export const mergeCluster = ({ representative, occurrences }: DetectionCluster): IdentifiedObject => {
+  if (occurrences.length === 1) return representative;
+  const track = new Map<number, TrackPoint>();
+  occurrences.forEach(obj => obj.track.forEach(point => track.set(point.timestamp, point)));
+  // The representative's own points win where sightings share a timestamp.
+  representative.track.forEach(point => track.set(point.timestamp, point));
+  return {
+    ...representative,
+    ...toTrackedObject({
+      ...representative,
+      firstSeen: Math.min(...occurrences.map(obj => obj.firstSeen)),
+      lastSeen: Math.max(...occurrences.map(obj => obj.lastSeen)),
+      track: [...track.values()],
+    }),
+  };
+};
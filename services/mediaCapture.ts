@@ -0,0 +1,136 @@
+import { sleep } from "../utils/abort";
+
+export type CaptureSource = 'camera' | 'screen' | 'test-pattern';
+
+// Preferred first; Gemini accepts WebM and MP4.
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+const TEST_PATTERN_SIZE = { width: 640, height: 360 };
+const TEST_PATTERN_FPS = 30;
+
+/**
+ * A synthetic stream of shapes moving over a grid, for trying capture without a camera.
+ */
+export const createTestPatternStream = (): MediaStream => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TEST_PATTERN_SIZE.width;
+  canvas.height = TEST_PATTERN_SIZE.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context.');
+  }
+  const stream = canvas.captureStream(TEST_PATTERN_FPS);
+  const startedAt = performance.now();
+
+  const draw = () => {
+    const [track] = stream.getVideoTracks();
+    if (!track || track.readyState === 'ended') return;
+    const t = (performance.now() - startedAt) / 1000;
+    const { width, height } = canvas;
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = '#374151';
+    for (let x = 0; x < width; x += 40) ctx.strokeRect(x, 0, 40, height);
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.arc(width / 2 + Math.cos(t) * width * 0.3, height / 2 + Math.sin(t) * height * 0.3, 30, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#3b82f6';
+    ctx.fillRect(((t * 80) % (width + 80)) - 80, height * 0.7, 80, 50);
+    ctx.fillStyle = '#f9fafb';
+    ctx.font = '16px monospace';
+    ctx.fillText(`test pattern ${t.toFixed(1)}s`, 12, 24);
+    requestAnimationFrame(draw);
+  };
+  draw();
+  return stream;
+};
+
+/**
+ * Asks for access to a camera or a screen, or starts a test pattern.
+ * @throws An Error with a readable message when access is denied or unsupported.
+ */
+export const openCaptureStream = async (source: CaptureSource): Promise<MediaStream> => {
+  if (source === 'test-pattern') {
+    return createTestPatternStream();
+  }
+  if (!navigator.mediaDevices) {
+    throw new Error('Capture needs a secure (https or localhost) page in a browser that supports it.');
+  }
+  try {
+    return source === 'camera'
+      ? await navigator.mediaDevices.getUserMedia({ video: true, audio: false })
+      : await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'NotAllowedError') {
+      throw new Error(source === 'camera' ? 'Camera access was denied.' : 'Screen sharing was cancelled or denied.');
+    }
+    if (e instanceof DOMException && e.name === 'NotFoundError') {
+      throw new Error('No camera was found.');
+    }
+    throw e;
+  }
+};
+
+export const stopStream = (stream: MediaStream) => {
+  stream.getTracks().forEach(track => track.stop());
+};
+
+export const isStreamActive = (stream: MediaStream): boolean =>
+  stream.getVideoTracks().some(track => track.readyState === 'live');
+
+const pickMimeType = (): string | undefined =>
+  RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export interface ClipRecording {
+  /** Stops recording and resolves with the clip. */
+  stop: () => Promise<File>;
+  /** Stops recording and throws the clip away. */
+  discard: () => void;
+}
+
+/**
+ * Starts recording a stream. Each recording becomes a standalone, playable file.
+ */
+export const startRecording = (stream: MediaStream): ClipRecording => {
+  const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }));
+  recorder.start();
+
+  const stopRecorder = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return {
+    stop: async () => {
+      stopRecorder();
+      await stopped;
+      // Strip codec parameters; the analysis only needs the container type.
+      const type = (recorder.mimeType || 'video/webm').split(';')[0];
+      const extension = type === 'video/mp4' ? 'mp4' : 'webm';
+      const name = `capture-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+      return new File(chunks, name, { type });
+    },
+    discard: stopRecorder,
+  };
+};
+
+/**
+ * Records `seconds` of a stream, or less if the stream ends first.
+ * @param signal Aborting discards the recording and rejects with an AbortError.
+ */
+export const recordClip = async (stream: MediaStream, seconds: number, signal?: AbortSignal): Promise<File> => {
+  signal?.throwIfAborted();
+  const recording = startRecording(stream);
+  const ended = new Promise<void>(resolve => stream.getVideoTracks()[0]?.addEventListener('ended', () => resolve(), { once: true }));
+  try {
+    await Promise.race([sleep(seconds * 1000, signal), ended]);
+  } catch (e) {
+    recording.discard();
+    throw e;
+  }
+  return recording.stop();
+};
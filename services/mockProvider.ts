@@ -0,0 +1,71 @@
+import { DetectionProvider, IdentifyOptions, IdentifyResult, RawVideoObject } from "../types";
+import { shiftObjectTime, toTrackedObject } from "./tracks";
+
+const getMockData = (targetObjects: string[], { clip }: IdentifyOptions = {}): IdentifyResult => {
+    console.warn("Using mock data. Select the Gemini API provider to analyze the video for real.");
+    const mockObjects: RawVideoObject[] = [
+        {
+            name: "Mock Office Chair",
+            description: "A black mesh office chair on casters.",
+            timestamp: 2.5,
+            boundingBox: { x_min: 0.25, y_min: 0.4, x_max: 0.45, y_max: 0.6 },
+            price: "$150 - $250",
+            confidence: 0.94,
+            firstSeen: 1.5,
+            lastSeen: 3.5,
+            track: [
+                { timestamp: 1.5, boundingBox: { x_min: 0.15, y_min: 0.4, x_max: 0.35, y_max: 0.6 } },
+                { timestamp: 2.5, boundingBox: { x_min: 0.25, y_min: 0.4, x_max: 0.45, y_max: 0.6 } },
+                { timestamp: 3.5, boundingBox: { x_min: 0.35, y_min: 0.42, x_max: 0.55, y_max: 0.62 } }
+            ]
+        },
+        {
+            name: "Mock Road Bicycle",
+            description: "A blue aluminium road bike leaning on a wall.",
+            timestamp: 5.1,
+            boundingBox: { x_min: 0.1, y_min: 0.3, x_max: 0.8, y_max: 0.5 },
+            price: "$800 - $1200",
+            confidence: 0.81,
+            firstSeen: 4.0,
+            lastSeen: 6.0,
+            track: [
+                { timestamp: 4.0, boundingBox: { x_min: 0.1, y_min: 0.35, x_max: 0.8, y_max: 0.55 } },
+                { timestamp: 5.1, boundingBox: { x_min: 0.1, y_min: 0.3, x_max: 0.8, y_max: 0.5 } },
+                { timestamp: 6.0, boundingBox: { x_min: 0.12, y_min: 0.28, x_max: 0.82, y_max: 0.48 } }
+            ]
+        },
+        {
+            name: "Mock Floor Lamp",
+            description: "A brass floor lamp with a fabric shade.",
+            timestamp: 8.9,
+            boundingBox: { x_min: 0.3, y_min: 0.6, x_max: 0.9, y_max: 0.8 },
+            price: "$300 - $500",
+            confidence: 0.46
+        },
+        {
+            name: `Mock ${targetObjects[0] || 'Object'}`,
+            description: "A generic mock item based on your query.",
+            timestamp: 11.2,
+            boundingBox: { x_min: 0.6, y_min: 0.1, x_max: 0.8, y_max: 0.3 },
+            price: "$100 - $200",
+            confidence: 0.27
+        }
+    ];
+    const trackedObjects = mockObjects.map(toTrackedObject);
+    // Mimic a real clipped request: only detections inside the window, with clip-relative timestamps.
+    const objects = clip
+        ? trackedObjects
+            .filter(obj => obj.timestamp >= clip.start && obj.timestamp < clip.end)
+            .map(obj => shiftObjectTime(obj, -clip.start, 0, clip.end - clip.start))
+        : trackedObjects;
+    const rawJson = JSON.stringify(objects, null, 2);
+    return { objects, rawJson, issues: [] };
+};
+
+export const mockProvider: DetectionProvider = {
+  id: 'mock',
+  label: 'Mock data',
+  description: 'Returns canned detections instantly. Useful for UI work without API costs.',
+  supportsClipping: true,
+  identify: async (_videoFile, targetObjects, options) => getMockData(targetObjects, options),
+};
@@ -0,0 +1,91 @@
+import { IdentifyOptions, ModelSettings, PromptTemplate } from "../types";
+import { DEFAULT_TEMPLATE_ID, findTemplate, isPromptTemplate, loadCustomTemplates, storeCustomTemplates } from "./promptTemplates";
+import { AVAILABLE_MODELS } from "./usage";
+
+const SETTINGS_KEY = 'video-object-identifier:model-settings';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: 'gemini-2.5-flash',
+  // Gemini 2.5's own default.
+  temperature: 1,
+  mediaResolution: 'default',
+  templateId: DEFAULT_TEMPLATE_ID,
+};
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+/**
+ * Checks stored or imported settings field by field, keeping the defaults for anything invalid.
+ */
+const sanitizeSettings = (value: unknown): ModelSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<ModelSettings>;
+  const { temperature } = stored;
+  return {
+    model: typeof stored.model === 'string' && AVAILABLE_MODELS.includes(stored.model) ? stored.model : DEFAULT_MODEL_SETTINGS.model,
+    temperature: typeof temperature === 'number' && temperature >= MIN_TEMPERATURE && temperature <= MAX_TEMPERATURE
+      ? temperature
+      : DEFAULT_MODEL_SETTINGS.temperature,
+    mediaResolution: stored.mediaResolution === 'low' ? 'low' : 'default',
+    templateId: typeof stored.templateId === 'string' ? stored.templateId : DEFAULT_MODEL_SETTINGS.templateId,
+  };
+};
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    return sanitizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}'));
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The options to pass to a provider for the given settings, with the template looked up.
+ */
+export const toIdentifyOptions = (
+  settings: ModelSettings,
+  customTemplates: PromptTemplate[] = loadCustomTemplates(),
+): Pick<IdentifyOptions, 'model' | 'temperature' | 'mediaResolution' | 'template'> => ({
+  model: settings.model,
+  temperature: settings.temperature,
+  mediaResolution: settings.mediaResolution,
+  template: findTemplate(settings.templateId, customTemplates),
+});
+
+/**
+ * Serializes the settings and custom templates into a JSON file that can be imported elsewhere.
+ */
+export const exportSettings = (settings: ModelSettings, customTemplates: PromptTemplate[]): string => {
+  return JSON.stringify({ version: EXPORT_VERSION, settings, templates: customTemplates }, null, 2);
+};
+
+/**
+ * Reads an exported settings file and stores its contents. Imported templates replace custom templates with
+ * the same id; other custom templates are kept.
+ * @throws An Error when the file isn't a settings export.
+ */
+export const importSettings = (json: string): { settings: ModelSettings; templates: PromptTemplate[] } => {
+  let data: { version?: unknown; settings?: unknown; templates?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data?.version !== EXPORT_VERSION || !Array.isArray(data.templates)) {
+    throw new Error('The file is not a settings export from this app.');
+  }
+
+  const imported = data.templates.filter(isPromptTemplate).map(({ id, name, text }) => ({ id, name, text }));
+  const ids = new Set(imported.map(t => t.id));
+  const templates = storeCustomTemplates(
+    [...loadCustomTemplates().filter(t => !ids.has(t.id)), ...imported].sort((a, b) => a.name.localeCompare(b.name)),
+  );
+  const settings = sanitizeSettings(data.settings);
+  saveModelSettings(settings);
+  return { settings, templates };
+};
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { VideoObject } from "../types";
+import { convertPrice, DEFAULT_RATES, enrichPrices, parsePrice, totalValue } from "./pricing";
+
+const priced = (price: string): VideoObject => ({
+  name: 'lamp',
+  description: '',
+  timestamp: 0,
+  boundingBox: { x_min: 0, y_min: 0, x_max: 1, y_max: 1 },
+  price,
+  firstSeen: 0,
+  lastSeen: 0,
+  track: [],
+});
+
+test('parses single prices, ranges, thousands separators and suffixes', () => {
+  assert.deepEqual(parsePrice('$450 - $550'), { min: 450, max: 550, currency: 'USD' });
+  assert.deepEqual(parsePrice('€1.2k'), { min: 1200, max: 1200, currency: 'EUR' });
+  assert.deepEqual(parsePrice('about 300 GBP'), { min: 300, max: 300, currency: 'GBP' });
+  assert.deepEqual(parsePrice('C$1,250'), { min: 1250, max: 1250, currency: 'CAD' });
+  assert.deepEqual(parsePrice('2M ¥'), { min: 2_000_000, max: 2_000_000, currency: 'JPY' });
+  assert.equal(parsePrice('priceless'), null);
+});
+
+test('reads a currency code written right after the amount', () => {
+  assert.deepEqual(parsePrice('300USD'), { min: 300, max: 300, currency: 'USD' });
+  assert.deepEqual(parsePrice('20-30EUR'), { min: 20, max: 30, currency: 'EUR' });
+});
+
+test('recognises currencies only when they have a rate', () => {
+  assert.equal(parsePrice('5000 SEK')?.currency, 'USD');
+  assert.equal(parsePrice('5000 SEK', { ...DEFAULT_RATES, SEK: 10.5 })?.currency, 'SEK');
+  const [enriched] = enrichPrices([priced('5000SEK')], { ...DEFAULT_RATES, SEK: 10.5 });
+  assert.deepEqual(enriched.priceRange, { min: 5000, max: 5000, currency: 'SEK' });
+});
+
+test('converts between currencies through the dollar rates', () => {
+  assert.deepEqual(convertPrice({ min: 92, max: 184, currency: 'EUR' }, 'USD', DEFAULT_RATES), { min: 100, max: 200, currency: 'USD' });
+  assert.equal(convertPrice({ min: 1, max: 1, currency: 'XYZ' }, 'USD', DEFAULT_RATES), null);
+});
+
+test('totals the priced detections in the target currency', () => {
+  const objects = enrichPrices([priced('$100'), priced('$50 - $150'), priced('unknown')]);
+  const { total, pricedCount, unpricedCount } = totalValue(objects, { targetCurrency: 'USD', rates: DEFAULT_RATES });
+  assert.deepEqual(total, { min: 150, max: 250, currency: 'USD' });
+  assert.equal(pricedCount, 2);
+  assert.equal(unpricedCount, 1);
+});
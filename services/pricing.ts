@@ -0,0 +1,134 @@
+import { PriceRange, VideoObject } from "../types";
+
+const CURRENCY_SETTINGS_KEY = 'video-object-identifier:currency-settings';
+
+/**
+ * Units of each currency per one US dollar. Edit these in the value summary to match current rates.
+ */
+export const DEFAULT_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CAD: 1.36,
+  AUD: 1.52,
+  CHF: 0.88,
+  INR: 83,
+};
+
+// Checked in order, so the prefixed dollar signs come before the bare one.
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['C$', 'CAD'],
+  ['A$', 'AUD'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+];
+
+const MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+export interface CurrencySettings {
+  targetCurrency: string;
+  rates: Record<string, number>;
+}
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CURRENCY_SETTINGS_KEY) ?? 'null');
+    if (stored && typeof stored.targetCurrency === 'string' && typeof stored.rates === 'object') {
+      return { targetCurrency: stored.targetCurrency, rates: { ...DEFAULT_RATES, ...stored.rates } };
+    }
+  } catch {
+    // Fall through to the defaults.
+  }
+  return { targetCurrency: 'USD', rates: DEFAULT_RATES };
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings): void => {
+  localStorage.setItem(CURRENCY_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const detectCurrency = (text: string, rates: Record<string, number>): string | null => {
+  // Codes may follow the amount directly, as in "300USD".
+  const code = text.toUpperCase().match(/(?<![A-Z])[A-Z]{3}(?![A-Z])/g)?.find(candidate => candidate in rates);
+  if (code) return code;
+  return CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))?.[1] ?? null;
+};
+
+/**
+ * Parses a free-text price such as "$450 - $550", "€1.2k", "about 300 GBP" or "300USD".
+ * @returns The range, or null when the text has no amount. Text without a currency is assumed to be USD.
+ */
+export const parsePrice = (text: string, rates: Record<string, number> = DEFAULT_RATES): PriceRange | null => {
+  const amounts = [...text.replace(/(\d),(?=\d{3}\b)/g, '$1').matchAll(/(\d+(?:\.\d+)?)(?:\s*([kKmM])(?![a-zA-Z]))?/g)]
+    .map(([, value, suffix]) => parseFloat(value) * (suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1))
+    .filter(Number.isFinite);
+  if (amounts.length === 0) {
+    return null;
+  }
+  return {
+    min: Math.min(...amounts),
+    max: Math.max(...amounts),
+    currency: detectCurrency(text, rates) ?? 'USD',
+  };
+};
+
+/**
+ * Adds `priceRange` to every detection whose price text can be parsed.
+ */
+export const enrichPrices = <T extends VideoObject>(objects: T[], rates?: Record<string, number>): T[] => {
+  return objects.map(obj => {
+    const priceRange = parsePrice(obj.price, rates) ?? undefined;
+    return { ...obj, priceRange };
+  });
+};
+
+/**
+ * Converts a range into another currency. Returns null if either currency has no rate.
+ */
+export const convertPrice = (range: PriceRange, targetCurrency: string, rates: Record<string, number>): PriceRange | null => {
+  const from = rates[range.currency];
+  const to = rates[targetCurrency];
+  if (!from || !to) return null;
+  const factor = to / from;
+  return { min: range.min * factor, max: range.max * factor, currency: targetCurrency };
+};
+
+export const formatPriceRange = ({ min, max, currency }: PriceRange): string => {
+  const format = (n: number) => n.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 0 });
+  return min === max ? format(min) : `${format(min)} – ${format(max)}`;
+};
+
+export interface ValueTotal {
+  total: PriceRange;
+  pricedCount: number;
+  /** Detections with no readable price or no rate for their currency. */
+  unpricedCount: number;
+}
+
+/**
+ * Sums the price ranges of the detections in the target currency.
+ */
+export const totalValue = (objects: VideoObject[], { targetCurrency, rates }: CurrencySettings): ValueTotal => {
+  let pricedCount = 0;
+  const total: PriceRange = { min: 0, max: 0, currency: targetCurrency };
+  objects.forEach(obj => {
+    const converted = obj.priceRange ? convertPrice(obj.priceRange, targetCurrency, rates) : null;
+    if (!converted) return;
+    total.min += converted.min;
+    total.max += converted.max;
+    pricedCount++;
+  });
+  return { total, pricedCount, unpricedCount: objects.length - pricedCount };
+};
+
+/**
+ * The price shown for a detection: its parsed range in the target currency when possible, else the model's text.
+ */
+export const formatDetectionPrice = (obj: VideoObject, { targetCurrency, rates }: CurrencySettings): string => {
+  if (!obj.priceRange) return obj.price;
+  return formatPriceRange(convertPrice(obj.priceRange, targetCurrency, rates) ?? obj.priceRange);
+};
@@ -0,0 +1,129 @@
+import { PromptTemplate, StructuredQuery } from "../types";
+import { formatQueryForPrompt } from "./queryPrompt";
+import { includedTerms } from "../utils/queryTerms";
+
+const TEMPLATES_KEY = 'video-object-identifier:prompt-templates';
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+/** The variables a template can use, for display in the editor. */
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: '{{items}}', description: 'The items to find, with their attributes and synonyms, and the items to exclude.' },
+  { name: '{{targets}}', description: 'The names of the items to find, comma-separated.' },
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General',
+    builtIn: true,
+    text: `You are a precision object detection system. Your mission is to perform an exhaustive and meticulous scan of this video to identify EVERY SINGLE UNIQUE INSTANCE of the items listed below.
+
+{{items}}
+
+- **SPECIFIC NAMING:** You MUST identify each object by its most specific name possible. For example, instead of 'car', identify it as 'Red 2021 Honda Civic'. Generic names are unacceptable.`,
+  },
+  {
+    id: 'retail-shelf-audit',
+    name: 'Retail shelf audit',
+    builtIn: true,
+    text: `You are auditing the shelves of a retail store from this video. Find every product facing that matches the items below: {{targets}}.
+
+{{items}}
+
+- **SPECIFIC NAMING:** Name each product by brand, product line, variant and pack size as printed on the packaging (e.g. 'Coca-Cola Zero Sugar 330ml can, 6-pack'), not just 'soda'.
+- **FACINGS:** Report each visible facing separately, including partially blocked ones at shelf edges.
+- **DESCRIPTION:** Mention the shelf position (top, eye level, bottom), any shelf label or price tag you can read, and whether the product looks out of place, damaged or nearly out of stock.`,
+  },
+  {
+    id: 'home-inventory',
+    name: 'Home inventory',
+    builtIn: true,
+    text: `You are cataloguing the contents of a home for an insurance inventory from this walkthrough video. Find every item that matches the list below: {{targets}}.
+
+{{items}}
+
+- **SPECIFIC NAMING:** Name each item by brand and model where visible (e.g. 'Samsung 55" QLED TV', 'IKEA Poäng armchair'), otherwise by its material and style (e.g. 'oak six-drawer dresser').
+- **DESCRIPTION:** Note the room, the item's condition and any visible serial numbers, labels or damage.`,
+  },
+  {
+    id: 'wildlife',
+    name: 'Wildlife',
+    builtIn: true,
+    text: `You are a field biologist reviewing camera-trap or survey footage. Find every animal that matches the list below: {{targets}}.
+
+{{items}}
+
+- **SPECIFIC NAMING:** Name each animal by its most specific identifiable taxon, common name first (e.g. 'Red fox (Vulpes vulpes)'). Only go as specific as the footage supports.
+- **INDIVIDUALS:** Report each individual animal separately, including juveniles and animals partly hidden by vegetation.
+- **DESCRIPTION:** Note apparent age and sex where visible, and the behavior (feeding, moving, resting, alert).`,
+  },
+  {
+    id: 'security',
+    name: 'Security',
+    builtIn: true,
+    text: `You are reviewing security camera footage. Find every instance of the items listed below: {{targets}}.
+
+{{items}}
+
+- **SPECIFIC NAMING:** Name each object as specifically as the footage allows (e.g. 'Black hard-shell rolling suitcase', 'Silver 2019 Ford Transit van').
+- **UNATTENDED OR CONCEALED ITEMS:** Pay particular attention to objects that are carried, handed over, left behind or partly concealed.
+- **DESCRIPTION:** Describe where in the scene the object is and what is happening to it. Do not identify people by name.`,
+  },
+];
+
+export const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+  const t = value as PromptTemplate;
+  return typeof value === 'object' && value !== null
+    && typeof t.id === 'string' && typeof t.name === 'string' && typeof t.text === 'string';
+};
+
+/**
+ * Loads the user's own templates from localStorage, ignoring anything unreadable.
+ */
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPromptTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeCustomTemplates = (templates: PromptTemplate[]): PromptTemplate[] => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  return templates;
+};
+
+/**
+ * Saves a custom template, replacing any existing template with the same id.
+ * @returns The updated list of custom templates, sorted by name.
+ */
+export const saveCustomTemplate = (template: PromptTemplate): PromptTemplate[] => {
+  const others = loadCustomTemplates().filter(t => t.id !== template.id);
+  const saved = { id: template.id, name: template.name, text: template.text };
+  return storeCustomTemplates([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+export const deleteCustomTemplate = (id: string): PromptTemplate[] => {
+  return storeCustomTemplates(loadCustomTemplates().filter(t => t.id !== id));
+};
+
+/**
+ * Finds a template among the built-in and custom ones, falling back to the general template.
+ */
+export const findTemplate = (id: string, customTemplates: PromptTemplate[]): PromptTemplate => {
+  return [...BUILT_IN_TEMPLATES, ...customTemplates].find(t => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+};
+
+/**
+ * Fills in a template's variables. The formatted item list is appended when the template doesn't place it,
+ * so the model always sees what to look for.
+ */
+export const renderPromptTemplate = (text: string, query: StructuredQuery): string => {
+  const items = formatQueryForPrompt(query);
+  const rendered = text
+    .replaceAll('{{targets}}', includedTerms(query).join(', '))
+    .replaceAll('{{items}}', items);
+  return text.includes('{{items}}') ? rendered : `${rendered}\n\n${items}`;
+};
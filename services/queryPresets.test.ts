@@ -0,0 +1,44 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { loadQueryPresets, saveQueryPreset } from "./queryPresets";
+
+const PRESETS_KEY = 'video-object-identifier:query-presets';
+const stored = new Map<string, string>();
+
+beforeEach(() => {
+  stored.clear();
+  globalThis.localStorage = {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => { stored.set(key, value); },
+  } as Storage;
+});
+
+test('round-trips saved presets sorted by name', () => {
+  saveQueryPreset('kitchen', { include: [{ label: 'mug', attributes: { color: 'red' }, synonyms: ['cup'] }], exclude: ['plate'] });
+  saveQueryPreset('desk', { include: [{ label: 'lamp', attributes: {}, synonyms: [] }], exclude: [] });
+  assert.deepEqual(loadQueryPresets().map(preset => preset.name), ['desk', 'kitchen']);
+  assert.deepEqual(loadQueryPresets()[1].query.include[0], { label: 'mug', attributes: { color: 'red' }, synonyms: ['cup'] });
+});
+
+test('drops malformed presets and fills in what older ones left out', () => {
+  stored.set(PRESETS_KEY, JSON.stringify([
+    { name: 'old', query: { include: [{ label: 'mug' }] } },
+    { name: 'no query' },
+    { name: 'flat terms', query: { include: ['mug'], exclude: [] } },
+    { name: 'bad synonyms', query: { include: [{ label: 'mug', synonyms: 'cup' }], exclude: [] } },
+    { name: 'bad attribute', query: { include: [{ label: 'mug', attributes: { color: 1 } }], exclude: [] } },
+    { name: 'bad exclude', query: { include: [{ label: 'mug' }], exclude: [3] } },
+    { query: { include: [{ label: 'mug' }], exclude: [] } },
+    null,
+  ]));
+  assert.deepEqual(loadQueryPresets(), [
+    { name: 'old', query: { include: [{ label: 'mug', attributes: {}, synonyms: [] }], exclude: [] } },
+  ]);
+});
+
+test('ignores storage that is not a list', () => {
+  stored.set(PRESETS_KEY, '{"name":"mug"}');
+  assert.deepEqual(loadQueryPresets(), []);
+  stored.set(PRESETS_KEY, 'not json');
+  assert.deepEqual(loadQueryPresets(), []);
+});
@@ -0,0 +1,79 @@
+import { QueryAttributes, QueryTerm, StructuredQuery } from "../types";
+
+const PRESETS_KEY = 'video-object-identifier:query-presets';
+
+export interface QueryPreset {
+  name: string;
+  query: StructuredQuery;
+}
+
+const ATTRIBUTE_KEYS: (keyof QueryAttributes)[] = ['color', 'brand', 'state'];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Reads a stored query term, filling in missing attributes and synonyms. Returns null when it is malformed.
+ */
+const sanitizeTerm = (value: unknown): QueryTerm | null => {
+  const term = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof QueryTerm, unknown>>;
+  const attributes = (term.attributes ?? {}) as Record<string, unknown>;
+  const synonyms = term.synonyms ?? [];
+  if (typeof term.label !== 'string' || !term.label.trim() || typeof attributes !== 'object' || attributes === null
+    || !ATTRIBUTE_KEYS.every(key => attributes[key] === undefined || typeof attributes[key] === 'string')
+    || !isStringArray(synonyms)) {
+    return null;
+  }
+  return {
+    label: term.label,
+    attributes: Object.fromEntries(ATTRIBUTE_KEYS.filter(key => attributes[key] !== undefined).map(key => [key, attributes[key]])),
+    synonyms,
+  };
+};
+
+/**
+ * Reads a stored preset. Returns null when it or any of its terms is malformed, e.g. saved by an older version.
+ */
+const sanitizePreset = (value: unknown): QueryPreset | null => {
+  const preset = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof QueryPreset, unknown>>;
+  const query = (typeof preset.query === 'object' && preset.query !== null ? preset.query : {}) as Partial<Record<keyof StructuredQuery, unknown>>;
+  const exclude = query.exclude ?? [];
+  if (typeof preset.name !== 'string' || !preset.name.trim() || !Array.isArray(query.include) || !isStringArray(exclude)) {
+    return null;
+  }
+  const include = query.include.map(sanitizeTerm);
+  if (include.length === 0 || include.some(term => term === null)) return null;
+  return { name: preset.name, query: { include: include as QueryTerm[], exclude } };
+};
+
+/**
+ * Loads the saved query presets from localStorage, dropping any that are unreadable or malformed.
+ */
+export const loadQueryPresets = (): QueryPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.map(sanitizePreset).filter((preset): preset is QueryPreset => preset !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeQueryPresets = (presets: QueryPreset[]): QueryPreset[] => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+/**
+ * Saves a preset, replacing any existing preset with the same name.
+ * @returns The updated list of presets, sorted by name.
+ */
+export const saveQueryPreset = (name: string, query: StructuredQuery): QueryPreset[] => {
+  const others = loadQueryPresets().filter(preset => preset.name !== name);
+  return storeQueryPresets([...others, { name, query }].sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+export const deleteQueryPreset = (name: string): QueryPreset[] => {
+  return storeQueryPresets(loadQueryPresets().filter(preset => preset.name !== name));
+};
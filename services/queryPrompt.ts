@@ -0,0 +1,26 @@
+import { QueryTerm, StructuredQuery } from "../types";
+
+const describeTerm = ({ label, attributes, synonyms }: QueryTerm): string => {
+  const details = [
+    attributes.color && `color: ${attributes.color}`,
+    attributes.brand && `brand: ${attributes.brand}`,
+    attributes.state && `state: ${attributes.state}`,
+  ].filter(Boolean);
+  const requirements = details.length > 0 ? ` — only instances matching ${details.join('; ')}` : '';
+  const aliases = synonyms.length > 0 ? ` (also called: ${synonyms.join(', ')})` : '';
+  return `- "${label}"${aliases}${requirements}`;
+};
+
+/**
+ * Renders a query as the list of items for the model to find, followed by the items it must not report.
+ */
+export const formatQueryForPrompt = (query: StructuredQuery): string => {
+  const lines = ['**ITEMS TO FIND:**', ...query.include.map(describeTerm)];
+  if (query.exclude.length > 0) {
+    lines.push(
+      '',
+      `**DO NOT REPORT:** ${query.exclude.map(item => `"${item}"`).join(', ')}. Leave these out even when they resemble an item to find.`,
+    );
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,70 @@
+import { DetectionProvider, IdentifyOptions, IdentifyResult } from "../types";
+import { parseDetectionsJson } from "./responseValidation";
+
+/**
+ * A recorded model response for a specific video, stored as JSON under `fixtures/`.
+ */
+export interface RecordedFixture {
+  videoName: string;
+  videoSize: number;
+  targetObjects: string[];
+  recordedAt: string;
+  providerId: string;
+  rawJson: string;
+}
+
+const fixtureModules = import.meta.glob<RecordedFixture>('../fixtures/*.json', { eager: true, import: 'default' });
+
+const fixtures: RecordedFixture[] = Object.values(fixtureModules);
+
+/**
+ * Finds the recorded fixture for a video. An exact name + size match wins;
+ * otherwise a fixture recorded for a file with the same name is used.
+ */
+const findFixture = (videoFile: File): RecordedFixture | undefined => {
+  return fixtures.find(f => f.videoName === videoFile.name && f.videoSize === videoFile.size)
+    ?? fixtures.find(f => f.videoName === videoFile.name);
+};
+
+const replayFixture = async (videoFile: File, targetObjects: string[], { frameSize }: IdentifyOptions = {}): Promise<IdentifyResult> => {
+  const fixture = findFixture(videoFile);
+  if (!fixture) {
+    const available = fixtures.map(f => f.videoName).join(', ') || 'none';
+    throw new Error(`No recorded fixture found for "${videoFile.name}". Available fixtures: ${available}.`);
+  }
+
+  const requested = targetObjects.map(t => t.toLowerCase()).sort().join(',');
+  const recorded = fixture.targetObjects.map(t => t.toLowerCase()).sort().join(',');
+  if (requested !== recorded) {
+    console.warn(`Replaying fixture recorded for [${fixture.targetObjects.join(', ')}], but the query was [${targetObjects.join(', ')}].`);
+  }
+
+  const text = fixture.rawJson.trim();
+  if (!text) {
+    return { objects: [], rawJson: '[]', issues: [] };
+  }
+  return { ...parseDetectionsJson(text, frameSize), rawJson: text };
+};
+
+/**
+ * Serializes a finished analysis into the fixture format so it can be dropped into `fixtures/` and replayed offline.
+ */
+export const createFixture = (videoFile: File, targetObjects: string[], providerId: string, rawJson: string): string => {
+  const fixture: RecordedFixture = {
+    videoName: videoFile.name,
+    videoSize: videoFile.size,
+    targetObjects,
+    recordedAt: new Date().toISOString(),
+    providerId,
+    rawJson,
+  };
+  return JSON.stringify(fixture, null, 2);
+};
+
+export const replayProvider: DetectionProvider = {
+  id: 'replay',
+  label: 'Replay fixtures',
+  description: 'Replays responses recorded in fixtures/*.json for the selected video file.',
+  supportsClipping: false,
+  identify: replayFixture,
+};
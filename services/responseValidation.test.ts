@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BoundingBox } from "../types";
+import { detectCoordinateConvention, parseDetectionsJson, validateDetections } from "./responseValidation";
+
+const box = (x_min: number, y_min: number, x_max: number, y_max: number): BoundingBox => ({ x_min, y_min, x_max, y_max });
+
+test('detects the coordinate convention from the largest coordinates', () => {
+  assert.equal(detectCoordinateConvention([box(0.1, 0.2, 0.5, 1.0004)]), 'unit');
+  assert.equal(detectCoordinateConvention([box(100, 200, 500, 900)]), 'thousand');
+  assert.equal(detectCoordinateConvention([box(100, 200, 1500, 900)]), 'pixels');
+  assert.equal(detectCoordinateConvention([]), 'unit');
+});
+
+test('reads boxes inside a frame smaller than the 0–1000 grid as pixels', () => {
+  const sampled = { width: 512, height: 288 };
+  assert.equal(detectCoordinateConvention([box(100, 50, 480, 280)], sampled), 'pixels');
+  // Taller than the frame, so these can only be on the grid.
+  assert.equal(detectCoordinateConvention([box(100, 50, 480, 700)], sampled), 'thousand');
+  // A frame at least as large as the grid can't tell them apart; Gemini's native grid wins.
+  assert.equal(detectCoordinateConvention([box(100, 50, 480, 280)], { width: 1920, height: 1080 }), 'thousand');
+});
+
+test('rescales pixel boxes by the frame size and reports it', () => {
+  const { objects, issues } = validateDetections(
+    [{ name: 'mug', description: 'A mug', timestamp: 1, boundingBox: box(128, 72, 256, 144) }],
+    { width: 512, height: 288 },
+  );
+  assert.deepEqual(objects[0].boundingBox, box(0.25, 0.25, 0.5, 0.5));
+  assert.match(issues[0].reason, /512×288/);
+});
+
+test('rejects pixel boxes when the frame size is unknown', () => {
+  const { objects, issues } = validateDetections([{ name: 'mug', timestamp: 1, boundingBox: box(100, 100, 1500, 900) }]);
+  assert.equal(objects.length, 0);
+  assert.equal(issues[0].action, 'rejected');
+});
+
+test('fixes inverted boxes, rejects boxes without area and entries without a name', () => {
+  const { objects, issues } = validateDetections([
+    { name: 'mug', description: '', timestamp: 1, boundingBox: box(0.5, 0.5, 0.1, 0.1) },
+    { name: 'cup', description: '', timestamp: 2, boundingBox: box(0.2, 0.2, 0.2, 0.4) },
+    { description: '', timestamp: 3, boundingBox: box(0.1, 0.1, 0.2, 0.2) },
+  ]);
+  assert.deepEqual(objects.map(obj => obj.boundingBox), [box(0.1, 0.1, 0.5, 0.5)]);
+  assert.deepEqual(issues.map(issue => [issue.index, issue.action]), [[0, 'corrected'], [1, 'rejected'], [2, 'rejected']]);
+});
+
+test('turns unparseable text into a single rejection', () => {
+  const { objects, issues } = parseDetectionsJson('not json');
+  assert.equal(objects.length, 0);
+  assert.equal(issues.length, 1);
+});
@@ -0,0 +1,235 @@
+import { BoundingBox, RawVideoObject, TrackPoint, ValidationIssue, VideoObject } from "../types";
+import { shiftObjectTime, toTrackedObject } from "./tracks";
+
+export type CoordinateConvention = 'unit' | 'thousand' | 'pixels';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface ValidatedDetections {
+  objects: VideoObject[];
+  issues: ValidationIssue[];
+}
+
+// Small tolerance so values like 1.0004 from rounding still count as normalized.
+const UNIT_TOLERANCE = 1.001;
+const THOUSAND_SCALE = 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const readBox = (value: unknown): BoundingBox | null => {
+  if (!isRecord(value)) return null;
+  const { x_min, y_min, x_max, y_max } = value;
+  if (![x_min, y_min, x_max, y_max].every(isFiniteNumber)) return null;
+  return { x_min, y_min, x_max, y_max } as BoundingBox;
+};
+
+const collectBoxes = (entries: unknown[]): BoundingBox[] => {
+  return entries.flatMap(entry => {
+    if (!isRecord(entry)) return [];
+    const boxes = [readBox(entry.boundingBox)];
+    if (Array.isArray(entry.track)) {
+      entry.track.forEach(point => isRecord(point) && boxes.push(readBox(point.boundingBox)));
+    }
+    return boxes.filter((box): box is BoundingBox => box !== null);
+  });
+};
+
+/**
+ * Works out which coordinate system the model used, from the largest coordinates in the response.
+ * Models are asked for 0–1 values, but Gemini often falls back to its native 0–1000 grid or pixels. When the frame
+ * is smaller than that grid, as sampled frames usually are, boxes that stay inside it are taken to be pixels.
+ */
+export const detectCoordinateConvention = (boxes: BoundingBox[], frameSize?: FrameSize): CoordinateConvention => {
+  const maxX = Math.max(0, ...boxes.flatMap(b => [b.x_min, b.x_max]));
+  const maxY = Math.max(0, ...boxes.flatMap(b => [b.y_min, b.y_max]));
+  const max = Math.max(maxX, maxY);
+  if (max <= UNIT_TOLERANCE) return 'unit';
+  if (frameSize && Math.max(frameSize.width, frameSize.height) < THOUSAND_SCALE
+    && maxX <= frameSize.width * UNIT_TOLERANCE && maxY <= frameSize.height * UNIT_TOLERANCE) {
+    return 'pixels';
+  }
+  if (max <= THOUSAND_SCALE) return 'thousand';
+  return 'pixels';
+};
+
+/**
+ * What to divide coordinates by to normalize them; null for pixels when the frame size is unknown.
+ */
+const coordinateScale = (convention: CoordinateConvention, frameSize?: FrameSize): FrameSize | null => {
+  if (convention === 'unit') return { width: 1, height: 1 };
+  if (convention === 'thousand') return { width: THOUSAND_SCALE, height: THOUSAND_SCALE };
+  return frameSize ?? null;
+};
+
+/**
+ * Converts a box to normalized 0–1 coordinates, swapping inverted edges and clamping to the frame.
+ * @returns The normalized box, whether it had to be corrected, or null if it has no area.
+ */
+const normalizeBox = (box: BoundingBox, scale: FrameSize): { box: BoundingBox; corrected: boolean } | null => {
+  const x1 = box.x_min / scale.width;
+  const y1 = box.y_min / scale.height;
+  const x2 = box.x_max / scale.width;
+  const y2 = box.y_max / scale.height;
+  const inverted = x1 > x2 || y1 > y2;
+
+  const clamp = (n: number) => Math.min(1, Math.max(0, n));
+  const normalized = {
+    x_min: clamp(Math.min(x1, x2)),
+    y_min: clamp(Math.min(y1, y2)),
+    x_max: clamp(Math.max(x1, x2)),
+    y_max: clamp(Math.max(y1, y2)),
+  };
+  if (normalized.x_max <= normalized.x_min || normalized.y_max <= normalized.y_min) {
+    return null;
+  }
+  const clamped = [x1, y1, x2, y2].some(n => n < 0 || n > 1);
+  return { box: normalized, corrected: inverted || clamped };
+};
+
+const describeEntry = (entry: unknown): string | undefined => {
+  return isRecord(entry) && typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : undefined;
+};
+
+/**
+ * Checks every entry of a model response and normalizes it. Entries that cannot be repaired are rejected;
+ * entries that were repaired are kept and flagged.
+ */
+export const validateDetections = (data: unknown, frameSize?: FrameSize): ValidatedDetections => {
+  if (!Array.isArray(data)) {
+    return {
+      objects: [],
+      issues: [{ index: null, action: 'rejected', reason: 'The response is not a JSON array of detections.' }],
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const convention = detectCoordinateConvention(collectBoxes(data), frameSize);
+  const scale = coordinateScale(convention, frameSize);
+  if (!scale) {
+    return {
+      objects: [],
+      issues: [{ index: null, action: 'rejected', reason: 'Boxes are in pixels but the video frame size is unknown, so they cannot be normalized.' }],
+    };
+  }
+  if (convention !== 'unit') {
+    issues.push({
+      index: null,
+      action: 'corrected',
+      reason: convention === 'thousand'
+        ? 'Boxes used 0–1000 coordinates and were rescaled to 0–1.'
+        : `Boxes used pixel coordinates and were rescaled using the ${scale.width}×${scale.height} frame size.`,
+    });
+  }
+
+  const objects: VideoObject[] = [];
+  data.forEach((entry, index) => {
+    const name = describeEntry(entry);
+    const reject = (reason: string) => issues.push({ index, name, action: 'rejected', reason });
+    const correct = (reason: string) => issues.push({ index, name, action: 'corrected', reason });
+
+    if (!isRecord(entry)) return reject('Entry is not an object.');
+    if (!name) return reject('Missing or empty "name".');
+    if (!isFiniteNumber(entry.timestamp) || entry.timestamp < 0) return reject('"timestamp" is not a non-negative number.');
+
+    const rawBox = readBox(entry.boundingBox);
+    if (!rawBox) return reject('"boundingBox" is missing or has non-numeric coordinates.');
+    const normalized = normalizeBox(rawBox, scale);
+    if (!normalized) return reject('"boundingBox" has no area.');
+    if (normalized.corrected) correct('Bounding box was inverted or outside the frame and was fixed.');
+
+    const track: TrackPoint[] = [];
+    if (Array.isArray(entry.track)) {
+      let dropped = 0;
+      entry.track.forEach(point => {
+        const pointBox = isRecord(point) ? readBox(point.boundingBox) : null;
+        const pointNormalized = pointBox ? normalizeBox(pointBox, scale) : null;
+        if (!isRecord(point) || !isFiniteNumber(point.timestamp) || point.timestamp < 0 || !pointNormalized) {
+          dropped++;
+          return;
+        }
+        track.push({ timestamp: point.timestamp, boundingBox: pointNormalized.box });
+      });
+      if (dropped > 0) correct(`${dropped} invalid track point${dropped === 1 ? ' was' : 's were'} dropped.`);
+    }
+
+    let confidence: number | undefined;
+    if (isFiniteNumber(entry.confidence)) {
+      // Some responses use a 0–100 scale despite the schema.
+      confidence = entry.confidence > 1 && entry.confidence <= 100 ? entry.confidence / 100 : entry.confidence;
+      if (confidence < 0 || confidence > 1) {
+        correct('"confidence" was outside 0–1 and was clamped.');
+        confidence = Math.min(1, Math.max(0, confidence));
+      }
+    }
+
+    if (typeof entry.description !== 'string') correct('Missing "description".');
+
+    const raw: RawVideoObject = {
+      name,
+      description: typeof entry.description === 'string' ? entry.description : '',
+      timestamp: entry.timestamp,
+      boundingBox: normalized.box,
+      price: typeof entry.price === 'string' ? entry.price : '',
+      firstSeen: isFiniteNumber(entry.firstSeen) ? entry.firstSeen : undefined,
+      lastSeen: isFiniteNumber(entry.lastSeen) ? entry.lastSeen : undefined,
+      track,
+      queryTerm: typeof entry.queryTerm === 'string' ? entry.queryTerm : undefined,
+      confidence,
+    };
+    objects.push(toTrackedObject(raw));
+  });
+
+  return { objects, issues };
+};
+
+/**
+ * Parses a model's JSON text and validates it. Unparseable text yields no detections and a single rejection.
+ */
+export const parseDetectionsJson = (text: string, frameSize?: FrameSize): ValidatedDetections => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return {
+      objects: [],
+      issues: [{ index: null, action: 'rejected', reason: `The response is not valid JSON (${e instanceof Error ? e.message : 'parse error'}).` }],
+    };
+  }
+  return validateDetections(data, frameSize);
+};
+
+/**
+ * Clamps every time in the detections to the video's duration, flagging the ones that ran past the end.
+ */
+export const clampToDuration = (objects: VideoObject[], duration: number): ValidatedDetections => {
+  if (!Number.isFinite(duration) || duration <= 0) {
+    return { objects, issues: [] };
+  }
+  const issues: ValidationIssue[] = [];
+  const clamped = objects.map(obj => {
+    if (obj.lastSeen > duration || obj.timestamp > duration) {
+      issues.push({ index: null, name: obj.name, action: 'corrected', reason: `Timestamps ran past the end of the video (${duration.toFixed(2)}s) and were clamped.` });
+      return shiftObjectTime(obj, 0, 0, duration);
+    }
+    return obj;
+  });
+  return { objects: clamped, issues };
+};
+
+/**
+ * Pretty-prints raw model output for display, falling back to the text itself when it isn't valid JSON.
+ */
+export const formatRawJson = (text: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
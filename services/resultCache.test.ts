@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cacheKey } from "./resultCache";
+
+const video = (contents: string, name = 'clip.mp4') => new File([contents], name, { type: 'video/mp4' });
+
+test('keys a run by the video contents, not the file name', async () => {
+  const key = await cacheKey(video('frames'), ['mug'], {});
+  assert.equal(await cacheKey(video('frames', 'renamed.mp4'), ['mug'], {}), key);
+  assert.notEqual(await cacheKey(video('other frames'), ['mug'], {}), key);
+});
+
+test('hashes videos larger than one slice by all of their contents', async () => {
+  const size = 17 * 1024 * 1024;
+  const a = new Uint8Array(size);
+  const b = new Uint8Array(size);
+  b[size - 1] = 1;
+  const keyA = await cacheKey(new File([a], 'a.mp4'), ['mug'], {});
+  assert.notEqual(await cacheKey(new File([b], 'b.mp4'), ['mug'], {}), keyA);
+  assert.equal(await cacheKey(new File([a], 'c.mp4'), ['mug'], {}), keyA);
+});
+
+test('ignores the order, case and spacing of the target terms', async () => {
+  assert.equal(
+    await cacheKey(video('frames'), ['Red  Mug', 'lamp'], {}),
+    await cacheKey(video('frames'), ['lamp', 'red mug'], {}),
+  );
+});
+
+test('changes with anything that changes what the model is asked', async () => {
+  const base = await cacheKey(video('frames'), ['mug'], {});
+  const variants = [
+    { includePrices: true },
+    { clip: { start: 0, end: 30 } },
+    { model: 'another-model' },
+    { temperature: 1.5 },
+    { mode: 'frames' as const },
+  ];
+  for (const options of variants) {
+    assert.notEqual(await cacheKey(video('frames'), ['mug'], options), base, JSON.stringify(options));
+  }
+});
+
+test('only counts frame sampling settings in frames mode', async () => {
+  const sampling = { strategy: 'scene' as const, intervalSeconds: 2, maxFrames: 10, maxDimension: 256 };
+  assert.equal(await cacheKey(video('frames'), ['mug'], { sampling }), await cacheKey(video('frames'), ['mug'], {}));
+  assert.notEqual(
+    await cacheKey(video('frames'), ['mug'], { mode: 'frames', sampling }),
+    await cacheKey(video('frames'), ['mug'], { mode: 'frames' }),
+  );
+});
@@ -0,0 +1,221 @@
+import { DetectionProvider, IdentifyOptions, IdentifyResult, ResultCacheSettings } from "../types";
+import { DEFAULT_MODEL_SETTINGS } from "./modelSettings";
+import { BUILT_IN_TEMPLATES } from "./promptTemplates";
+import { PROMPT_VERSION } from "./detectionRequest";
+import { DEFAULT_FRAME_SAMPLING } from "./frameSampling";
+import { abortable } from "../utils/abort";
+
+const SETTINGS_KEY = 'video-object-identifier:result-cache';
+const DB_NAME = 'video-object-identifier-results';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RESULT_CACHE_SETTINGS: ResultCacheSettings = {
+  enabled: true,
+  ttlDays: 7,
+  maxMegabytes: 50,
+};
+
+interface CachedResult {
+  key: string;
+  createdAt: string;
+  /** For evicting the least recently used results first. */
+  usedAt: number;
+  /** Approximate size of the stored result in bytes. */
+  size: number;
+  result: IdentifyResult;
+}
+
+const sanitizeSettings = (value: unknown): ResultCacheSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<ResultCacheSettings>;
+  const positive = (n: unknown, fallback: number) => (typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : fallback);
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_RESULT_CACHE_SETTINGS.enabled,
+    ttlDays: positive(stored.ttlDays, DEFAULT_RESULT_CACHE_SETTINGS.ttlDays),
+    maxMegabytes: positive(stored.maxMegabytes, DEFAULT_RESULT_CACHE_SETTINGS.maxMegabytes),
+  };
+};
+
+export const loadResultCacheSettings = (): ResultCacheSettings => {
+  try {
+    return sanitizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}'));
+  } catch {
+    return DEFAULT_RESULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveResultCacheSettings = (settings: ResultCacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the result cache database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `run` in one transaction on the results store and resolves with what it returns once the transaction commits.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T> | T): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, mode);
+    let value: T;
+    Promise.resolve(run(tx.objectStore(RESULTS_STORE))).then(result => { value = result; }, reject);
+    tx.oncomplete = () => resolve(value);
+    tx.onerror = () => reject(tx.error ?? new Error('Result cache transaction failed.'));
+    tx.onabort = () => reject(tx.error ?? new Error('Result cache transaction was aborted.'));
+  });
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource | string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+// Web Crypto can't hash a stream, so videos are hashed a slice at a time and the slices' hashes hashed together;
+// only one slice is in memory at once. Each video's hash is kept for later runs.
+const HASH_SLICE_BYTES = 16 * 1024 * 1024;
+const videoHashes = new WeakMap<File, Promise<string>>();
+
+const hashContents = async (file: Blob): Promise<string> => {
+  const sliceHashes: string[] = [];
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_BYTES) {
+    sliceHashes.push(await sha256(await file.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer()));
+  }
+  return sha256(`${file.size}:${sliceHashes.join(',')}`);
+};
+
+const hashVideo = (videoFile: File): Promise<string> => {
+  let hash = videoHashes.get(videoFile);
+  if (!hash) {
+    hash = hashContents(videoFile);
+    hash.catch(() => videoHashes.delete(videoFile));
+    videoHashes.set(videoFile, hash);
+  }
+  return hash;
+};
+
+const normalizeTargets = (targetObjects: string[]): string[] =>
+  [...new Set(targetObjects.map(term => term.trim().replace(/\s+/g, ' ').toLowerCase()))].sort();
+
+/**
+ * The cache key of a run: the video's bytes plus everything that changes what the model is asked.
+ */
+export const cacheKey = async (videoFile: File, targetObjects: string[], options: IdentifyOptions): Promise<string> => {
+  const { query, includePrices = false, clip, model, temperature, mediaResolution, template, mode = 'video', sampling } = options;
+  const request = {
+    promptVersion: PROMPT_VERSION,
+    targets: normalizeTargets(targetObjects),
+    query: query ?? null,
+    includePrices,
+    clip: clip ? [clip.start, clip.end] : null,
+    model: model ?? DEFAULT_MODEL_SETTINGS.model,
+    temperature: temperature ?? DEFAULT_MODEL_SETTINGS.temperature,
+    mediaResolution: mediaResolution ?? DEFAULT_MODEL_SETTINGS.mediaResolution,
+    template: (template ?? BUILT_IN_TEMPLATES[0]).text,
+    mode,
+    sampling: mode === 'frames' ? sampling ?? DEFAULT_FRAME_SAMPLING : null,
+  };
+  return sha256(`${await hashVideo(videoFile)}:${JSON.stringify(request)}`);
+};
+
+const isExpired = (entry: CachedResult, settings: ResultCacheSettings, now: number): boolean =>
+  now - Date.parse(entry.createdAt) > settings.ttlDays * DAY_MS;
+
+const readCachedResult = (key: string, settings: ResultCacheSettings): Promise<CachedResult | undefined> =>
+  withStore('readwrite', async store => {
+    const entry = await requestResult<CachedResult | undefined>(store.get(key));
+    if (!entry) return undefined;
+    const now = Date.now();
+    if (isExpired(entry, settings, now)) {
+      store.delete(key);
+      return undefined;
+    }
+    store.put({ ...entry, usedAt: now });
+    return entry;
+  });
+
+/**
+ * Stores a result, then drops expired entries and the least recently used ones until the cache fits its size cap.
+ */
+const writeCachedResult = (key: string, result: IdentifyResult, settings: ResultCacheSettings): Promise<void> =>
+  withStore('readwrite', async store => {
+    const now = Date.now();
+    const size = JSON.stringify(result).length * 2;
+    store.put({ key, createdAt: new Date(now).toISOString(), usedAt: now, size, result } satisfies CachedResult);
+
+    const entries = await requestResult<CachedResult[]>(store.getAll());
+    let total = 0;
+    const maxBytes = settings.maxMegabytes * 1024 * 1024;
+    for (const entry of entries.sort((a, b) => b.usedAt - a.usedAt)) {
+      total += entry.size;
+      if (entry.key !== key && (isExpired(entry, settings, now) || total > maxBytes)) {
+        store.delete(entry.key);
+        total -= entry.size;
+      }
+    }
+  });
+
+export const clearResultCache = (): Promise<void> => withStore('readwrite', store => { store.clear(); });
+
+/**
+ * Puts the result cache in front of a provider's identify call. A run with the same video bytes, targets,
+ * model settings and prompt is answered locally, without usage since nothing was billed. Cache failures
+ * never fail the run; the provider is called as if there were no cache.
+ */
+export const withResultCache = (identify: DetectionProvider['identify']): DetectionProvider['identify'] =>
+  async (videoFile, targetObjects, options = {}) => {
+    const settings = loadResultCacheSettings();
+    if (!settings.enabled) {
+      return identify(videoFile, targetObjects, options);
+    }
+
+    options.onStage?.('reading');
+    const key = await abortable(cacheKey(videoFile, targetObjects, options), options.signal).catch(error => {
+      if (options.signal?.aborted) throw error;
+      console.warn('Could not compute the result cache key', error);
+      return null;
+    });
+    if (!key) {
+      return identify(videoFile, targetObjects, options);
+    }
+
+    if (!options.refreshCache) {
+      const cached = await readCachedResult(key, settings).catch(error => {
+        console.warn('Could not read the result cache', error);
+        return undefined;
+      });
+      if (cached) {
+        return { ...cached.result, usage: undefined, cachedAt: cached.createdAt };
+      }
+    }
+
+    const result = await identify(videoFile, targetObjects, options);
+    await writeCachedResult(key, result, settings).catch(error => console.warn('Could not write the result cache', error));
+    return result;
+  };
@@ -0,0 +1,47 @@
+import { RetryNotice, RetryPolicy } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { sleep } from "../utils/abort";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  jitter: 0.25,
+};
+
+/**
+ * The delay before retrying after `attempt` failed. A server-suggested delay wins over the backoff,
+ * but is still jittered so that parallel callers spread out.
+ */
+export const retryDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number): number => {
+  const backoff = retryAfterMs ?? policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = backoff * (1 + policy.jitter * (Math.random() * 2 - 1));
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(0, jittered)));
+};
+
+interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+}
+
+/**
+ * Calls `operation` until it succeeds, it throws an error that isn't a retryable AnalysisError,
+ * or the policy's attempts run out.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, { policy, signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof AnalysisError) || !error.retryable || attempt >= resolved.maxAttempts || signal?.aborted) {
+        throw error;
+      }
+      const delayMs = retryDelay(resolved, attempt, error.retryAfterMs);
+      console.warn(`${error.message} Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt}/${resolved.maxAttempts}).`);
+      onRetry?.({ attempt, maxAttempts: resolved.maxAttempts, delayMs, kind: error.kind });
+      await sleep(delayMs, signal);
+    }
+  }
+};
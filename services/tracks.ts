@@ -0,0 +1,63 @@
+import { BoundingBox, RawVideoObject, TrackPoint, VideoObject } from "../types";
+
+/**
+ * Fills in the track fields for a detection. Single-box results become a one-point track,
+ * and the range is widened to cover every track point and the best-view timestamp.
+ */
+export const toTrackedObject = (raw: RawVideoObject): VideoObject => {
+  const track: TrackPoint[] = raw.track && raw.track.length > 0
+    ? [...raw.track].sort((a, b) => a.timestamp - b.timestamp)
+    : [{ timestamp: raw.timestamp, boundingBox: raw.boundingBox }];
+
+  const times = [raw.timestamp, ...track.map(point => point.timestamp)];
+  const firstSeen = Math.min(raw.firstSeen ?? raw.timestamp, ...times);
+  const lastSeen = Math.max(raw.lastSeen ?? raw.timestamp, ...times);
+
+  return { ...raw, firstSeen, lastSeen, track };
+};
+
+/**
+ * Applies a manually corrected box at `timestamp`: it becomes the best view, replaces any track point
+ * at that time, and the visible range is widened to include it.
+ */
+export const withCorrectedBox = (obj: VideoObject, timestamp: number, boundingBox: BoundingBox): VideoObject => {
+  const track = obj.track.filter(point => Math.abs(point.timestamp - timestamp) > 1e-3);
+  return toTrackedObject({ ...obj, timestamp, boundingBox, track: [...track, { timestamp, boundingBox }] });
+};
+
+/**
+ * Moves every time in a detection by `offset` seconds, clamping to `[min, max]`.
+ */
+export const shiftObjectTime = (obj: VideoObject, offset: number, min: number, max: number): VideoObject => {
+  const shift = (t: number) => Math.min(Math.max(min, t + offset), max);
+  return {
+    ...obj,
+    timestamp: shift(obj.timestamp),
+    firstSeen: shift(obj.firstSeen),
+    lastSeen: shift(obj.lastSeen),
+    track: obj.track.map(point => ({ ...point, timestamp: shift(point.timestamp) })),
+  };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Estimates where a tracked object is at `time` by interpolating linearly between the surrounding
+ * track points. Outside the track the nearest end point is used.
+ */
+export const boxAtTime = (track: TrackPoint[], time: number): BoundingBox => {
+  if (time <= track[0].timestamp) return track[0].boundingBox;
+  const last = track[track.length - 1];
+  if (time >= last.timestamp) return last.boundingBox;
+
+  const nextIndex = track.findIndex(point => point.timestamp > time);
+  const prev = track[nextIndex - 1];
+  const next = track[nextIndex];
+  const t = (time - prev.timestamp) / (next.timestamp - prev.timestamp);
+  return {
+    x_min: lerp(prev.boundingBox.x_min, next.boundingBox.x_min, t),
+    y_min: lerp(prev.boundingBox.y_min, next.boundingBox.y_min, t),
+    x_max: lerp(prev.boundingBox.x_max, next.boundingBox.x_max, t),
+    y_max: lerp(prev.boundingBox.y_max, next.boundingBox.y_max, t),
+  };
+};
@@ -0,0 +1,108 @@
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { MediaResolutionLevel, TokenUsage } from "../types";
+
+interface ModelPricing {
+  /** USD per million prompt tokens (text, image and video). */
+  inputPerMillion: number;
+  /** USD per million output tokens, including thinking tokens. */
+  outputPerMillion: number;
+}
+
+// Paid-tier list prices. Update these when Google changes its pricing.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+};
+
+// Gemini samples video at 1 fps and resizes every frame to a fixed token budget, so the cost of a video
+// depends on its duration and the requested media resolution, not on its pixel dimensions.
+const VIDEO_TOKENS_PER_SECOND: Record<MediaResolutionLevel, number> = { default: 258, low: 66 };
+const AUDIO_TOKENS_PER_SECOND = 32;
+// A still image costs the same as one video frame per 768 px tile, plus its "Frame <n> (<t>s)" label.
+const IMAGE_TILE_PIXELS = 768;
+const FRAME_LABEL_TOKENS = 10;
+// The instructions sent with every call.
+const PROMPT_TOKENS_PER_CALL = 450;
+// A rough allowance for the JSON returned per requested item, tracks included.
+const OUTPUT_TOKENS_PER_TERM = 400;
+
+/** The models that can be picked in settings: the ones we know prices for. */
+export const AVAILABLE_MODELS = Object.keys(MODEL_PRICING);
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, costUsd: 0 };
+
+/**
+ * Prices a token count with the given model's rates. Unknown models are priced at zero.
+ */
+export const priceTokens = (model: string, promptTokens: number, outputTokens: number): TokenUsage => {
+  const pricing = MODEL_PRICING[model];
+  const costUsd = pricing
+    ? (promptTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000
+    : 0;
+  return { promptTokens, outputTokens, costUsd };
+};
+
+/**
+ * Converts a response's usage metadata into token counts and their cost.
+ */
+export const toTokenUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata): TokenUsage => {
+  const promptTokens = metadata?.promptTokenCount ?? 0;
+  const outputTokens = (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0);
+  return priceTokens(model, promptTokens, outputTokens);
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  costUsd: a.costUsd + b.costUsd,
+});
+
+/**
+ * Sums the usage of several runs, ignoring runs that didn't report any.
+ * @returns The total, or undefined when none of the runs reported usage.
+ */
+export const sumUsage = (usages: (TokenUsage | undefined)[]): TokenUsage | undefined => {
+  const reported = usages.filter((usage): usage is TokenUsage => !!usage);
+  return reported.length > 0 ? reported.reduce(addUsage, EMPTY_USAGE) : undefined;
+};
+
+/**
+ * Estimates the usage of analyzing `duration` seconds of video in `calls` requests, before anything is sent.
+ */
+export const estimateVideoUsage = (
+  model: string,
+  duration: number,
+  termCount: number,
+  calls: number,
+  resolution: MediaResolutionLevel = 'default',
+): TokenUsage => {
+  const seconds = Math.ceil(Math.max(0, duration));
+  const promptTokens = seconds * (VIDEO_TOKENS_PER_SECOND[resolution] + AUDIO_TOKENS_PER_SECOND) + calls * PROMPT_TOKENS_PER_CALL;
+  const outputTokens = calls * termCount * OUTPUT_TOKENS_PER_TERM;
+  return priceTokens(model, promptTokens, outputTokens);
+};
+
+/**
+ * Estimates the usage of sending `frameCount` sampled frames, spread over `calls` requests, before anything is sent.
+ */
+export const estimateFrameUsage = (
+  model: string,
+  frameCount: number,
+  maxDimension: number,
+  termCount: number,
+  calls: number,
+  resolution: MediaResolutionLevel = 'default',
+): TokenUsage => {
+  const tiles = resolution === 'low' ? 1 : Math.ceil(maxDimension / IMAGE_TILE_PIXELS) ** 2;
+  const promptTokens = frameCount * (tiles * VIDEO_TOKENS_PER_SECOND[resolution] + FRAME_LABEL_TOKENS) + calls * PROMPT_TOKENS_PER_CALL;
+  const outputTokens = calls * termCount * OUTPUT_TOKENS_PER_TERM;
+  return priceTokens(model, promptTokens, outputTokens);
+};
+
+export const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
@@ -0,0 +1,43 @@
+export interface VideoMetadata {
+  duration: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the duration and frame size of a video file from its metadata.
+ * @returns A Promise that resolves with the duration in seconds and the frame size in pixels.
+ */
+export const getVideoMetadata = (videoFile: File): Promise<VideoMetadata> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const videoUrl = URL.createObjectURL(videoFile);
+
+    const done = () => {
+      URL.revokeObjectURL(videoUrl);
+      resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight });
+    };
+    video.onloadedmetadata = () => {
+      // Browser recordings (MediaRecorder WebM) don't store a duration; seeking past the end makes the browser
+      // scan the file and report it.
+      if (video.duration === Infinity) {
+        video.ondurationchange = () => {
+          if (video.duration === Infinity) return;
+          video.ondurationchange = null;
+          done();
+        };
+        video.currentTime = Number.MAX_SAFE_INTEGER;
+        return;
+      }
+      done();
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(videoUrl);
+      reject(new Error(`Could not read the metadata of "${videoFile.name}".`));
+    };
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.src = videoUrl;
+  });
+};
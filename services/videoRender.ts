@@ -0,0 +1,221 @@
+import { BoundingBox, IdentifiedObject } from "../types";
+import { boxAtTime } from "./tracks";
+import { labelBoundingBox, strokeBoundingBox } from "./frameService";
+import { startRecording } from "./mediaCapture";
+import { baseName } from "../utils/download";
+import { abortable } from "../utils/abort";
+
+/** `redact` hides each detection's box; `annotate` burns in labeled boxes instead. */
+export type RenderStyle = 'redact' | 'annotate';
+/** How a class is hidden in a redacted render; `none` leaves it visible. */
+export type RedactionEffect = 'blur' | 'pixelate' | 'fill' | 'none';
+
+export interface VideoRenderOptions {
+  style: RenderStyle;
+  /** The effect for each query term; terms left out are blurred. Only used when redacting. */
+  effects: Record<string, RedactionEffect>;
+  /** Extra margin around each box, as a fraction of the box size. */
+  padding: number;
+  /** How long before it is first seen and after it is last seen a detection is still covered, in seconds. */
+  timePadding: number;
+  /** Box and label color for each query term when annotating. */
+  colorForTerm?: (term: string) => string;
+  /** Called as the render progresses, with the fraction done. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REDACTION_EFFECT: RedactionEffect = 'blur';
+export const DEFAULT_BOX_PADDING = 0.15;
+export const DEFAULT_TIME_PADDING = 0.5;
+
+const FILL_COLOR = '#000000';
+// Pixelated boxes are at most this many blocks across their longer side.
+const PIXELATE_BLOCKS = 12;
+// Blur and pixelate redraw what is under the box, so they go first and can't uncover a filled box they overlap.
+const EFFECT_ORDER: RedactionEffect[] = ['none', 'blur', 'pixelate', 'fill'];
+
+interface ActiveBox {
+  obj: IdentifiedObject;
+  box: BoundingBox;
+}
+
+const padBox = (box: BoundingBox, padding: number): BoundingBox => {
+  const padX = (box.x_max - box.x_min) * padding;
+  const padY = (box.y_max - box.y_min) * padding;
+  return {
+    x_min: Math.max(0, box.x_min - padX),
+    y_min: Math.max(0, box.y_min - padY),
+    x_max: Math.min(1, box.x_max + padX),
+    y_max: Math.min(1, box.y_max + padY),
+  };
+};
+
+/**
+ * The detections on screen at `time`, with their boxes interpolated along their tracks.
+ */
+const boxesAtTime = (objects: IdentifiedObject[], time: number, timePadding: number): ActiveBox[] =>
+  objects
+    .filter(obj => time >= obj.firstSeen - timePadding && time <= obj.lastSeen + timePadding)
+    .map(obj => ({ obj, box: boxAtTime(obj.track, time) }));
+
+const toPixels = (box: BoundingBox, width: number, height: number) => {
+  const x = Math.floor(box.x_min * width);
+  const y = Math.floor(box.y_min * height);
+  return { x, y, w: Math.ceil(box.x_max * width) - x, h: Math.ceil(box.y_max * height) - y };
+};
+
+const pixelate = (ctx: CanvasRenderingContext2D, scratch: HTMLCanvasElement, x: number, y: number, w: number, h: number) => {
+  const scale = PIXELATE_BLOCKS / Math.max(w, h);
+  scratch.width = Math.max(1, Math.round(w * scale));
+  scratch.height = Math.max(1, Math.round(h * scale));
+  const scratchCtx = scratch.getContext('2d')!;
+  scratchCtx.drawImage(ctx.canvas, x, y, w, h, 0, 0, scratch.width, scratch.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, x, y, w, h);
+  ctx.restore();
+};
+
+/**
+ * Hides a box on a canvas that already holds the frame. Browsers without canvas filters pixelate instead of blurring.
+ */
+const redactBox = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  scratch: HTMLCanvasElement,
+  box: BoundingBox,
+  effect: RedactionEffect,
+) => {
+  const { width, height } = ctx.canvas;
+  const { x, y, w, h } = toPixels(box, width, height);
+  if (w <= 0 || h <= 0 || effect === 'none') return;
+
+  if (effect === 'fill') {
+    ctx.fillStyle = FILL_COLOR;
+    ctx.fillRect(x, y, w, h);
+  } else if (effect === 'blur' && typeof ctx.filter === 'string') {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
+    ctx.filter = `blur(${Math.max(8, Math.round(Math.min(w, h) / 4))}px)`;
+    ctx.drawImage(video, 0, 0, width, height);
+    ctx.restore();
+  } else {
+    pixelate(ctx, scratch, x, y, w, h);
+  }
+};
+
+/**
+ * Calls `onFrame` for every frame the video presents while it plays, with the frame's media time.
+ * Falls back to animation frames where `requestVideoFrameCallback` is missing.
+ */
+const onEachFrame = (video: HTMLVideoElement, onFrame: (time: number) => void): (() => void) => {
+  let stopped = false;
+  if (typeof video.requestVideoFrameCallback === 'function') {
+    let handle = 0;
+    const next = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (stopped) return;
+      onFrame(metadata.mediaTime);
+      handle = video.requestVideoFrameCallback(next);
+    };
+    handle = video.requestVideoFrameCallback(next);
+    return () => {
+      stopped = true;
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+  let handle = 0;
+  const next = () => {
+    if (stopped) return;
+    onFrame(video.currentTime);
+    handle = requestAnimationFrame(next);
+  };
+  handle = requestAnimationFrame(next);
+  return () => {
+    stopped = true;
+    cancelAnimationFrame(handle);
+  };
+};
+
+/**
+ * Renders a copy of the video with every detection redacted, or with labeled boxes burned in, by playing it
+ * onto a canvas and recording that. Boxes are interpolated between track points. The render runs in real time
+ * and has no audio.
+ * @param signal Aborting stops the render and rejects with an AbortError.
+ * @returns The rendered video, named after the original.
+ */
+export const renderVideo = async (videoFile: File, objects: IdentifiedObject[], options: VideoRenderOptions): Promise<File> => {
+  const { style, effects, padding, timePadding, colorForTerm, onProgress, signal } = options;
+  signal?.throwIfAborted();
+
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(videoFile);
+  video.muted = true;
+  video.playsInline = true;
+  video.src = url;
+
+  const effectFor = (obj: IdentifiedObject) => effects[obj.queryTerm] ?? DEFAULT_REDACTION_EFFECT;
+
+  let stopFrames = () => {};
+  let recording: ReturnType<typeof startRecording> | null = null;
+  try {
+    await abortable(new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error(`Could not decode "${videoFile.name}" for rendering.`));
+    }), signal);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context.');
+    const scratch = document.createElement('canvas');
+
+    const drawFrame = (time: number) => {
+      const { width, height } = canvas;
+      ctx.drawImage(video, 0, 0, width, height);
+      const active = boxesAtTime(objects, time, timePadding);
+      if (style === 'redact') {
+        active.sort((a, b) => EFFECT_ORDER.indexOf(effectFor(a.obj)) - EFFECT_ORDER.indexOf(effectFor(b.obj)));
+      }
+      active.forEach(({ obj, box }) => {
+        if (style === 'redact') {
+          redactBox(ctx, video, scratch, padBox(box, padding), effectFor(obj));
+        } else {
+          const color = colorForTerm?.(obj.queryTerm);
+          strokeBoundingBox(ctx, box, width, height, color);
+          labelBoundingBox(ctx, obj.name, box, width, height, color);
+        }
+      });
+      if (video.duration) onProgress?.(Math.min(1, time / video.duration));
+    };
+
+    // The first frame is drawn before recording starts so the output doesn't open on a blank canvas.
+    drawFrame(0);
+    recording = startRecording(canvas.captureStream());
+    stopFrames = onEachFrame(video, drawFrame);
+
+    await abortable(new Promise<void>((resolve, reject) => {
+      video.onended = () => resolve();
+      video.onerror = () => reject(new Error(`Playback of "${videoFile.name}" failed while rendering.`));
+      video.play().catch(reject);
+    }), signal);
+
+    stopFrames();
+    onProgress?.(1);
+    const rendered = await recording.stop();
+    recording = null;
+    const extension = rendered.type === 'video/mp4' ? 'mp4' : 'webm';
+    const suffix = style === 'redact' ? 'redacted' : 'annotated';
+    return new File([rendered], `${baseName(videoFile.name)}-${suffix}.${extension}`, { type: rendered.type });
+  } finally {
+    stopFrames();
+    recording?.discard();
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
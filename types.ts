@@ -0,0 +1,320 @@
+export interface BoundingBox {
+  x_min: number;
+  y_min: number;
+  x_max: number;
+  y_max: number;
+}
+
+export interface TrackPoint {
+  timestamp: number;
+  boundingBox: BoundingBox;
+}
+
+/**
+ * A single detected instance. `timestamp`/`boundingBox` mark where it is best seen;
+ * `firstSeen`/`lastSeen` and `track` describe its whole visible span.
+ */
+/**
+ * A price parsed from the model's free-text estimate. `min` equals `max` for a single figure.
+ */
+export interface PriceRange {
+  min: number;
+  max: number;
+  /** ISO 4217 code, e.g. "USD". */
+  currency: string;
+}
+
+export interface VideoObject {
+  name: string;
+  description: string;
+  timestamp: number;
+  boundingBox: BoundingBox;
+  /** The model's free-text price estimate, empty unless price enrichment was requested. */
+  price: string;
+  /** `price` parsed into numbers; set by price enrichment and absent when the text has no readable amount. */
+  priceRange?: PriceRange;
+  firstSeen: number;
+  lastSeen: number;
+  track: TrackPoint[];
+  /** Which of the requested target terms this object matches, as reported by the model. */
+  queryTerm?: string;
+  /** How sure the model was of the identification, from 0 to 1. Absent for manual and older detections. */
+  confidence?: number;
+}
+
+/**
+ * A detection as it may arrive from a model or recorded fixture. Older responses carry only a single box.
+ */
+export type RawVideoObject = Omit<VideoObject, 'firstSeen' | 'lastSeen' | 'track'> & Partial<Pick<VideoObject, 'firstSeen' | 'lastSeen' | 'track'>>;
+
+export type DetectionOrigin = 'model' | 'manual';
+
+/**
+ * A detection as shown in the app, with its resolved query term and the extracted frames.
+ * `frameUrl` is the raw frame; `imageUrl` is the same frame with the bounding box drawn on it, and
+ * `thumbnailUrl` is the box cropped out of the frame.
+ * Manual corrections are flagged here; the model's original output stays in the raw JSON.
+ */
+export interface IdentifiedObject extends VideoObject {
+  id: string;
+  origin: DetectionOrigin;
+  edited: boolean;
+  queryTerm: string;
+  frameUrl: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * A problem found while validating a model response. Rejected entries were dropped; corrected ones were kept after fixing.
+ */
+export interface ValidationIssue {
+  /** Position of the entry in the response, or null when the issue concerns the whole response. */
+  index: number | null;
+  name?: string;
+  /** The chunk the entry came from, for chunked analyses. */
+  chunk?: number;
+  action: 'rejected' | 'corrected';
+  reason: string;
+}
+
+/**
+ * Tokens billed for one or more model calls, and what they cost at the model's list price.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Gemini's per-frame video token budget. "low" trades detail for roughly a quarter of the tokens.
+ */
+export type MediaResolutionLevel = 'default' | 'low';
+
+/**
+ * Instructions for a kind of footage. `text` may use the variables `{{items}}` (the items to find and
+ * exclude, formatted for the model) and `{{targets}}` (the item names, comma-separated).
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+  /** Shipped with the app and read-only; copy it to make changes. */
+  builtIn?: boolean;
+}
+
+/**
+ * The model settings chosen in the settings panel, stored locally and applied to every run.
+ */
+export interface ModelSettings {
+  model: string;
+  temperature: number;
+  mediaResolution: MediaResolutionLevel;
+  templateId: string;
+}
+
+/**
+ * What the model is sent: the video itself, or still frames sampled from it with their exact timestamps.
+ */
+export type AnalysisMode = 'video' | 'frames';
+
+/**
+ * `interval` takes a frame every `intervalSeconds`; `scene` checks a frame every `intervalSeconds` and keeps
+ * it only when the picture changed noticeably since the last kept frame.
+ */
+export type FrameSamplingStrategy = 'interval' | 'scene';
+
+export interface FrameSamplingSettings {
+  strategy: FrameSamplingStrategy;
+  intervalSeconds: number;
+  /** The most frames sent in one request; the sampling spreads out to stay under it. */
+  maxFrames: number;
+  /** Frames are downsized so their longer side is at most this many pixels. */
+  maxDimension: number;
+}
+
+/**
+ * A downsized frame and the time, in seconds, it was taken at.
+ */
+export interface SampledFrame {
+  timestamp: number;
+  mimeType: string;
+  /** Base64 image data, without a data URL prefix. */
+  data: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * How long identical runs are answered from the local result cache, and how much it may hold.
+ */
+export interface ResultCacheSettings {
+  enabled: boolean;
+  ttlDays: number;
+  maxMegabytes: number;
+}
+
+/**
+ * Which model, settings and template produced a run.
+ */
+export interface RunInfo {
+  model: string;
+  temperature: number;
+  mediaResolution: MediaResolutionLevel;
+  templateId: string;
+  templateName: string;
+  /** Absent for runs from before frame sampling, which always sent the video. */
+  mode?: AnalysisMode;
+  /** How many frames were sent, for sampled-frame runs. */
+  frameCount?: number;
+}
+
+export interface IdentifyResult {
+  objects: VideoObject[];
+  rawJson: string;
+  issues: ValidationIssue[];
+  /** Absent for providers that don't call a billed model. */
+  usage?: TokenUsage;
+  /** Absent for providers that don't call a model. */
+  run?: RunInfo;
+  /** When the result came from the result cache, when it was originally produced (ISO 8601). */
+  cachedAt?: string;
+}
+
+/**
+ * A window of the video in seconds, measured from the start of the file.
+ */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface VideoChunk extends TimeWindow {
+  index: number;
+}
+
+/**
+ * The named steps of an analysis, in order. Providers report the first four; frame extraction happens afterwards.
+ */
+export type AnalysisStage = 'reading' | 'sampling' | 'uploading' | 'waiting' | 'validating' | 'extracting';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  chunks?: ChunkProgress;
+  frames?: { completed: number; total: number };
+  /** Set while waiting to retry a failed model call. */
+  retry?: RetryNotice;
+}
+
+/**
+ * How failed model calls are retried. Delays grow exponentially from `baseDelayMs` up to `maxDelayMs`,
+ * and each is randomized by up to ±`jitter` (a fraction) so parallel chunks don't retry in lockstep.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number;
+}
+
+export type AnalysisErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'payload-too-large'
+  | 'unsupported-media'
+  | 'safety'
+  | 'malformed-response'
+  | 'network'
+  | 'unavailable'
+  | 'unknown';
+
+export interface RetryNotice {
+  /** The attempt that just failed, starting at 1. */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  kind: AnalysisErrorKind;
+}
+
+/**
+ * Optional details that narrow down what counts as a match for a query term.
+ */
+export interface QueryAttributes {
+  color?: string;
+  brand?: string;
+  /** e.g. "open", "damaged", "in use". */
+  state?: string;
+}
+
+export interface QueryTerm {
+  /** The name results are grouped and colored by. */
+  label: string;
+  attributes: QueryAttributes;
+  /** Other names the model should also treat as this term. */
+  synonyms: string[];
+}
+
+/**
+ * What to look for: every included term is searched for; excluded items must not be reported,
+ * even when they resemble an included term.
+ */
+export interface StructuredQuery {
+  include: QueryTerm[];
+  exclude: string[];
+}
+
+export interface IdentifyOptions {
+  /** Restricts analysis to this window. Returned timestamps are relative to `clip.start`. */
+  clip?: TimeWindow;
+  /** The video's frame size in pixels, used to normalize pixel-based boxes. */
+  frameSize?: { width: number; height: number };
+  /** Called as the provider moves between reading or uploading the video, waiting on the model and validating. */
+  onStage?: (stage: AnalysisStage) => void;
+  /** Called before waiting to retry a failed model call. */
+  onRetry?: (notice: RetryNotice) => void;
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Whether to ask for a price estimate for each detection. */
+  includePrices?: boolean;
+  /** The full query behind `targetObjects`. Without it, each target is searched for with no extra details. */
+  query?: StructuredQuery;
+  /** Model settings; providers fall back to their defaults for anything left out. */
+  model?: string;
+  temperature?: number;
+  mediaResolution?: MediaResolutionLevel;
+  template?: PromptTemplate;
+  /** Send the video, or frames sampled from it. Providers that can't sample frames always use the video. */
+  mode?: AnalysisMode;
+  /** How frames are sampled in 'frames' mode. */
+  sampling?: FrameSamplingSettings;
+  /** Analyze again even if the result cache holds this run; the new result replaces the cached one. */
+  refreshCache?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ChunkProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+/**
+ * A backend capable of finding the requested objects in a video.
+ * New backends implement this interface and register themselves in `services/detectionProviders.ts`.
+ */
+export interface DetectionProvider {
+  id: string;
+  label: string;
+  description: string;
+  /** Whether `identify` honours `options.clip`. Providers that don't are always called once for the whole video. */
+  supportsClipping: boolean;
+  /** Whether `identify` honours `options.mode === 'frames'`. */
+  supportsFrameSampling?: boolean;
+  identify: (videoFile: File, targetObjects: string[], options?: IdentifyOptions) => Promise<IdentifyResult>;
+  /** Estimates the usage of a run before it is sent. Providers without billing leave this out. */
+  estimateUsage?: (
+    duration: number,
+    targetObjects: string[],
+    calls: number,
+    options?: Pick<IdentifyOptions, 'model' | 'mediaResolution' | 'mode' | 'sampling'>,
+  ) => TokenUsage;
+}
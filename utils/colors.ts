@@ -0,0 +1,6 @@
+const TERM_COLORS = ['#facc15', '#38bdf8', '#f472b6', '#4ade80', '#fb923c', '#a78bfa', '#f87171', '#2dd4bf'];
+
+/**
+ * A stable highlight color for the query term at `index`, shared by the overlay and timeline.
+ */
+export const termColor = (index: number): string => TERM_COLORS[index % TERM_COLORS.length];
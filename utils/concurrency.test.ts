@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runWithConcurrency } from "./concurrency";
+import { sleep } from "./abort";
+
+test('keeps results in item order with at most `limit` calls in flight', async () => {
+  let inFlight = 0;
+  let mostInFlight = 0;
+  const results = await runWithConcurrency([30, 10, 20, 0], 2, async (ms) => {
+    mostInFlight = Math.max(mostInFlight, ++inFlight);
+    await sleep(ms);
+    inFlight--;
+    return ms * 2;
+  });
+
+  assert.deepEqual(results, [60, 20, 40, 0]);
+  assert.equal(mostInFlight, 2);
+});
+
+test('stops starting items and aborts the calls in flight after one fails', async () => {
+  const started: number[] = [];
+  let abortedInFlight = false;
+  const failure = new Error('chunk failed');
+
+  await assert.rejects(runWithConcurrency([0, 1, 2, 3, 4], 2, async (item, _index, signal) => {
+    started.push(item);
+    if (item === 0) {
+      await sleep(5);
+      throw failure;
+    }
+    try {
+      await sleep(1000, signal);
+    } catch (error) {
+      abortedInFlight = true;
+      throw error;
+    }
+    return item;
+  }), failure);
+
+  assert.deepEqual(started, [0, 1]);
+  assert.equal(abortedInFlight, true);
+});
+
+test('starts nothing once the caller aborts', async () => {
+  const controller = new AbortController();
+  const started: number[] = [];
+  const run = runWithConcurrency([0, 1, 2], 1, async (item) => {
+    started.push(item);
+    controller.abort();
+    return item;
+  }, controller.signal);
+
+  await assert.rejects(run, { name: 'AbortError' });
+  assert.deepEqual(started, [0]);
+});
@@ -0,0 +1,38 @@
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight, preserving result order.
+ * When `signal` is aborted or a call fails, no further items are started and the signal handed to the calls
+ * in flight is aborted, so their results aren't paid for and thrown away.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> => {
+  signal?.throwIfAborted();
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      controller.signal.throwIfAborted();
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index, controller.signal);
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+  return results;
+};
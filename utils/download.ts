@@ -0,0 +1,28 @@
+/**
+ * Saves a blob to the user's machine through a temporary link.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Decodes a base64 data URL into raw bytes.
+ */
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Strips the extension from a file name (e.g. "clip.mp4" -> "clip").
+ */
+export const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
@@ -0,0 +1,54 @@
+import { QueryTerm, StructuredQuery, VideoObject } from '../types';
+
+export const EMPTY_QUERY: StructuredQuery = { include: [], exclude: [] };
+
+/**
+ * Splits comma-separated text into trimmed, non-empty terms.
+ */
+export const parseQuery = (query: string): string[] => {
+  return query.split(',').map(s => s.trim()).filter(Boolean);
+};
+
+export const createQueryTerm = (label: string): QueryTerm => ({ label, attributes: {}, synonyms: [] });
+
+/**
+ * Builds a query with no attributes, synonyms or exclusions, e.g. for analyses saved before queries were structured.
+ */
+export const queryFromTerms = (terms: string[]): StructuredQuery => ({
+  include: terms.map(createQueryTerm),
+  exclude: [],
+});
+
+/**
+ * The labels of the included terms, which results are grouped by.
+ */
+export const includedTerms = (query: StructuredQuery): string[] => query.include.map(term => term.label);
+
+/**
+ * Adds terms to a list, skipping ones already present (case-insensitively).
+ */
+export const addUnique = <T>(list: T[], additions: T[], key: (item: T) => string): T[] => {
+  const seen = new Set(list.map(item => key(item).toLowerCase()));
+  const added = additions.filter(item => {
+    const k = key(item).toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return [...list, ...added];
+};
+
+/**
+ * Works out which of the requested terms a detection belongs to. Prefers the term the model reported,
+ * then a term (or one of its synonyms) mentioned in the name or description, and finally the first term.
+ */
+export const resolveQueryTerm = (obj: VideoObject, targetObjects: string[], query?: StructuredQuery): string => {
+  const lower = (s: string) => s.toLowerCase();
+  const namesFor = (term: string) => [term, ...(query?.include.find(t => t.label === term)?.synonyms ?? [])].map(lower);
+
+  const reported = obj.queryTerm ? targetObjects.find(term => namesFor(term).includes(lower(obj.queryTerm!))) : undefined;
+  if (reported) return reported;
+
+  const text = lower(`${obj.name} ${obj.description}`);
+  return targetObjects.find(term => namesFor(term).some(name => text.includes(name))) ?? obj.queryTerm ?? targetObjects[0] ?? obj.name;
+};
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IdentifiedObject } from "../types";
+import { DEFAULT_RATES, parsePrice } from "../services/pricing";
+import { groupByTerm, isLowConfidence, meetsThreshold, sortDetections } from "./resultView";
+
+const detection = (id: string, changes: Partial<IdentifiedObject> = {}): IdentifiedObject => ({
+  id,
+  name: id,
+  description: '',
+  timestamp: 0,
+  boundingBox: { x_min: 0, y_min: 0, x_max: 1, y_max: 1 },
+  price: '',
+  firstSeen: 0,
+  lastSeen: 0,
+  track: [],
+  queryTerm: 'item',
+  origin: 'model',
+  edited: false,
+  frameUrl: null,
+  imageUrl: null,
+  thumbnailUrl: null,
+  ...changes,
+});
+
+const withPrice = (id: string, price: string, rates = DEFAULT_RATES) =>
+  detection(id, { price, priceRange: parsePrice(price, rates) ?? undefined });
+
+const ids = (objects: IdentifiedObject[]) => objects.map(obj => obj.id);
+
+test('lets unscored detections through any threshold', () => {
+  assert.equal(meetsThreshold(detection('manual'), 0.9), true);
+  assert.equal(meetsThreshold(detection('low', { confidence: 0.4 }), 0.5), false);
+  assert.equal(isLowConfidence(detection('low', { confidence: 0.4 })), true);
+  assert.equal(isLowConfidence(detection('manual')), false);
+});
+
+test('sorts by time, confidence and name', () => {
+  const objects = [
+    detection('b', { firstSeen: 5, confidence: 0.9 }),
+    detection('a', { firstSeen: 1, confidence: 0.5 }),
+    detection('c', { firstSeen: 3 }),
+  ];
+  assert.deepEqual(ids(sortDetections(objects, 'time', DEFAULT_RATES)), ['a', 'c', 'b']);
+  assert.deepEqual(ids(sortDetections(objects, 'confidence', DEFAULT_RATES)), ['c', 'b', 'a']);
+  assert.deepEqual(ids(sortDetections(objects, 'name', DEFAULT_RATES)), ['a', 'b', 'c']);
+});
+
+test('sorts prices highest first in a common currency, unpriced last', () => {
+  const objects = [withPrice('dollars', '$100'), withPrice('none', 'unknown'), withPrice('pounds', '£90'), detection('text', { price: 'around 95 USD' })];
+  assert.deepEqual(ids(sortDetections(objects, 'price', DEFAULT_RATES)), ['pounds', 'dollars', 'text', 'none']);
+});
+
+test('compares prices with the rates it is given', () => {
+  const rates = { ...DEFAULT_RATES, GBP: 2 };
+  const objects = [withPrice('dollars', '$100', rates), withPrice('pounds', '£90', rates)];
+  assert.deepEqual(ids(sortDetections(objects, 'price', rates)), ['dollars', 'pounds']);
+});
+
+test('groups detections by query term in query order, unknown terms last', () => {
+  const objects = [detection('a', { queryTerm: 'cup' }), detection('b', { queryTerm: 'other' }), detection('c', { queryTerm: 'mug' })];
+  assert.deepEqual(
+    groupByTerm(objects, ['mug', 'cup', 'lamp']).map(group => [group.term, ids(group.objects)]),
+    [['mug', ['c']], ['cup', ['a']], ['other', ['b']]],
+  );
+});
@@ -0,0 +1,53 @@
+import { IdentifiedObject } from '../types';
+import { convertPrice, parsePrice } from '../services/pricing';
+
+export type ResultSort = 'time' | 'confidence' | 'name' | 'price';
+
+/** Whether every detection is listed, or repeated sightings of one object are collapsed into one item. */
+export type ResultView = 'sightings' | 'instances';
+
+/** Detections the model scored below this are shown as uncertain. */
+export const LOW_CONFIDENCE = 0.5;
+
+export const isLowConfidence = (obj: IdentifiedObject): boolean =>
+  obj.confidence !== undefined && obj.confidence < LOW_CONFIDENCE;
+
+/**
+ * Detections without a score (manual additions and older analyses) always pass the threshold.
+ */
+export const meetsThreshold = (obj: IdentifiedObject, threshold: number): boolean =>
+  obj.confidence === undefined || obj.confidence >= threshold;
+
+/**
+ * A comparable price in USD: the low end of the parsed range, or of the raw text for detections without one.
+ */
+const priceSortValue = (obj: IdentifiedObject, rates: Record<string, number>): number | null => {
+  const range = obj.priceRange ?? parsePrice(obj.price, rates);
+  if (!range) return null;
+  return convertPrice(range, 'USD', rates)?.min ?? range.min;
+};
+
+const comparators: Record<ResultSort, (a: IdentifiedObject, b: IdentifiedObject, rates: Record<string, number>) => number> = {
+  time: (a, b) => a.firstSeen - b.firstSeen || a.timestamp - b.timestamp,
+  confidence: (a, b) => (b.confidence ?? 1) - (a.confidence ?? 1),
+  name: (a, b) => a.name.localeCompare(b.name),
+  // Highest first; detections without a readable price go last.
+  price: (a, b, rates) => (priceSortValue(b, rates) ?? -1) - (priceSortValue(a, rates) ?? -1),
+};
+
+/**
+ * Sorts detections; prices are compared with the user's currency rates, as the value summary shows them.
+ */
+export const sortDetections = (objects: IdentifiedObject[], sort: ResultSort, rates: Record<string, number>): IdentifiedObject[] =>
+  [...objects].sort((a, b) => comparators[sort](a, b, rates));
+
+/**
+ * Splits detections into one group per query term, in query order, skipping empty groups.
+ * Detections whose term isn't in `terms` are grouped after the rest.
+ */
+export const groupByTerm = (objects: IdentifiedObject[], terms: string[]): { term: string; objects: IdentifiedObject[] }[] => {
+  const extra = [...new Set(objects.map(obj => obj.queryTerm))].filter(term => !terms.includes(term));
+  return [...terms, ...extra]
+    .map(term => ({ term, objects: objects.filter(obj => obj.queryTerm === term) }))
+    .filter(group => group.objects.length > 0);
+};
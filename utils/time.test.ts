@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatTime } from "./time";
+
+test('formats seconds as minutes and tenths of seconds', () => {
+  assert.equal(formatTime(0), '0:00.0');
+  assert.equal(formatTime(5.04), '0:05.0');
+  assert.equal(formatTime(75.25), '1:15.3');
+  assert.equal(formatTime(3600), '60:00.0');
+  assert.equal(formatTime(-3), '0:00.0');
+});
+
+test('carries rounded-up seconds into the minutes', () => {
+  assert.equal(formatTime(59.96), '1:00.0');
+  assert.equal(formatTime(119.96), '2:00.0');
+  assert.equal(formatTime(59.94), '0:59.9');
+});
@@ -0,0 +1,10 @@
+/**
+ * Formats seconds as m:ss.s (e.g. 75.25 -> "1:15.3").
+ */
+export const formatTime = (seconds: number): string => {
+  // Rounded first, so 59.96 carries into the minutes instead of showing as "0:60.0".
+  const tenths = Math.round(Math.max(0, seconds) * 10);
+  const minutes = Math.floor(tenths / 600);
+  const remainder = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainder}`;
+};
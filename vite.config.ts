@@ -4,15 +4,20 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the API server (npm run server); the app only talks to /api.
+    const apiProxy = { '/api': `http://localhost:${env.API_PORT || 8787}` };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DETECTION_PROVIDER': JSON.stringify(env.DETECTION_PROVIDER)
       },
       resolve: {
         alias: {